@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { RoomEntry } from "@/components/RoomEntry";
+import { lookupRoom, normalizeRoomId } from "@/lib/room-preview";
+
+type Props = { params: Promise<{ roomId: string }>; searchParams: Promise<{ invite?: string | string[] }> };
+
+// Link unfurls name public rooms only; secret, unknown and unreachable rooms keep the site's own title
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const lookup = await lookupRoom(normalizeRoomId((await params).roomId));
+  const roomTitle = lookup?.found ? lookup.room.title : null;
+  if (!roomTitle) return {};
+  const title = `${roomTitle} - witch@`;
+  return {
+    title,
+    openGraph: { title, siteName: "witch@", type: "website" },
+    twitter: { card: "summary", title },
+  };
+}
+
+export default async function RoomPage({ params, searchParams }: Props) {
+  const roomId = normalizeRoomId((await params).roomId);
+  if (!roomId || roomId === "main") redirect("/");
+
+  // Unreachable Socket server: go in anyway and let the live join sort it out. So does an invite link,
+  // since a secret room looks missing from here
+  const lookup = await lookupRoom(roomId);
+  if (lookup && !lookup.found && !(await searchParams).invite) return <RoomEntry roomId={roomId} missing />;
+  return <RoomEntry roomId={roomId} opening={lookup?.found ? lookup.room.opening : undefined} />;
+}
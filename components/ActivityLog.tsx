@@ -16,6 +16,8 @@ function getIcon(type: ActivityLogEntry["type"]): string {
     case "reveal": return "✦";
     case "copy": return "✎";
     case "presence": return "●";
+    case "moderation": return "⚑";
+    case "notice": return "✧";
     default: return "·";
   }
 }
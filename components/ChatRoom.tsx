@@ -15,12 +15,45 @@ import { Feedback } from "./Feedback";
 import { Ambiance } from "./Ambiance";
 import { RoomSelector } from "./RoomSelector";
 import { CrosstalkIndicator } from "./Crosstalk";
+import type { LinkMode } from "@/lib/protocol";
 
-const RULE_OF_THREE = 3;
-const MAX_VISIBLE = 6; // Show up to 6 messages, blur those beyond 3
+const RULE_OF_THREE = 3; // Clear messages, unless the room's settings say otherwise
 const IDLE_MS = 45_000;
 const SLASH_FEEDBACK_MS = 4000; // For non-help feedback
 const PERSISTENT_COMMANDS = ["/help"]; // These stay until dismissed
+const REPORT_REASONS = ["harassment", "hate", "spam", "other"];
+
+// Message text with its links: clickable where the server gave an href, plain but marked otherwise
+function renderMessageText(message: Message): React.ReactNode {
+  if (!message.links?.length) return message.text;
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  for (const link of message.links) {
+    if (link.start < at || link.end > message.text.length) continue; // Out of order or stale spans
+    parts.push(message.text.slice(at, link.start));
+    const label = message.text.slice(link.start, link.end);
+    parts.push(
+      link.href ? (
+        <a
+          key={link.start}
+          href={link.href}
+          target="_blank"
+          rel="noopener noreferrer nofollow ugc"
+          className="underline decoration-witch-plum-400/60 underline-offset-2 hover:text-witch-plum-400"
+        >
+          {label}
+        </a>
+      ) : (
+        <span key={link.start} className="font-mono text-witch-sage-500/90" title="Links aren't clickable in this room">
+          {label}
+        </span>
+      )
+    );
+    at = link.end;
+  }
+  parts.push(message.text.slice(at));
+  return parts;
+}
 
 // Relative timestamp helper
 function formatRelativeTime(ts: number): string {
@@ -37,9 +70,10 @@ function formatRelativeTime(ts: number): string {
 
 export function ChatRoom() {
   const messages = useStreamStore((s) => s.messages);
+  const maxVisible = useStreamStore((s) => s.maxVisible);
   const removeAfterDissipate = useStreamStore((s) => s.removeAfterDissipate);
   const clearStream = useStreamStore((s) => s.clearStream);
-  const { socket, connected, mood, copyNotifications, presence, someoneTyping, roomTitle, presenceGhosts, summoned, resonance, silenceSettled, attention, affirmations, activeCrosstalk, topicSubscriptions, topicToasts } = useSocket();
+  const { socket, identity, connected, mood, copyNotifications, presence, listeners, someoneTyping, roomTitle, presenceGhosts, summoned, resonance, silenceSettled, attention, affirmations, activeCrosstalk, topicSubscriptions, topicToasts, currentRoom, branchInvite, followBranch, dismissBranchInvite } = useSocket();
   const isIdle = useIdle(IDLE_MS);
   const reducedMotion = useReducedMotion();
   const [slashFeedback, setSlashFeedback] = useState<string | null>(null);
@@ -59,6 +93,11 @@ export function ChatRoom() {
     socket.emit("affirm", messageId);
   };
 
+  const handleReport = (message: Message, reason: string) => {
+    if (!socket) return;
+    socket.emit("report", { messageId: message.id, text: message.text, reason });
+  };
+
   // Transparent copy: when user copies from a message (Ctrl+C / right-click), notify the room
   useEffect(() => {
     if (!socket) return;
@@ -95,16 +134,19 @@ export function ChatRoom() {
     return () => document.removeEventListener("copy", onCopy, true);
   }, [socket]);
 
-  // Rule of Three: latest 3 are fully visible, older ones blur progressively
+  // Rule of Three: latest 3 are fully visible, older ones blur progressively (counts come from the room)
+  const clearCount = currentRoom?.settings?.visibleMessages ?? RULE_OF_THREE;
+  const fadedCount = Math.max(0, maxVisible - clearCount);
   const nonLeavingMessages = messages.filter((m) => !m.leaving);
-  const visibleMessages = nonLeavingMessages.slice(-MAX_VISIBLE);
+  const visibleMessages = nonLeavingMessages.slice(-maxVisible);
   const leavingMessages = messages.filter((m) => m.leaving);
 
-  // Calculate fade level: 0 = fully visible (newest 3), 1-3 = progressively more faded
+  // Calculate fade level: 0 = fully visible (newest clearCount), 1-3 = progressively more faded
   const getFadeLevel = (index: number, total: number): number => {
     const positionFromEnd = total - 1 - index;
-    if (positionFromEnd < RULE_OF_THREE) return 0; // Newest 3 are fully visible
-    return Math.min(positionFromEnd - RULE_OF_THREE + 1, 3); // 1, 2, 3 levels of fade
+    if (positionFromEnd < clearCount) return 0;
+    // Spread however many faded messages there are over the three levels of fade
+    return Math.min(3, Math.ceil(((positionFromEnd - clearCount + 1) * 3) / Math.max(fadedCount, 3)));
   };
 
   return (
@@ -148,6 +190,11 @@ export function ChatRoom() {
         </span>
         <span className="text-witch-sage-500/50 hidden sm:inline">·</span>
         <span title="People in the stream" className="hidden sm:inline">{presence} in the stream</span>
+        {listeners > 0 && (
+          <span title="Following this room from another one" className="hidden sm:inline text-witch-sage-500/60">
+            + {listeners} listening
+          </span>
+        )}
         <span className="sm:hidden">{presence}</span>
         {/* Attention indicators - who's focused vs away vs stepping away */}
         {attention.length > 0 && (
@@ -230,7 +277,36 @@ export function ChatRoom() {
           </motion.div>
         )}
       </AnimatePresence>
-      
+
+      {/* Branch invite: a tangent you were part of moved to its own room */}
+      <AnimatePresence>
+        {branchInvite && (
+          <motion.div
+            key={`branch-${branchInvite.roomId}`}
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            transition={{ duration: 0.3 }}
+            className="fixed top-14 left-1/2 -translate-x-1/2 z-30 glass rounded-lg px-3 py-2 flex items-center gap-2 text-xs text-witch-plum-400/90"
+          >
+            <span className="w-2 h-2 rounded-full animate-pulse" style={{ backgroundColor: branchInvite.from.color }} />
+            <span>
+              {branchInvite.from.handle ? <span className="font-mono">{branchInvite.from.handle}</span> : "Someone"} branched off to{" "}
+              <span className="text-witch-parchment/90">{branchInvite.title}</span>
+            </span>
+            <button
+              onClick={followBranch}
+              className="px-2 py-0.5 rounded bg-witch-plum-700/70 hover:bg-witch-plum-500/80 text-witch-parchment transition-colors"
+            >
+              Follow
+            </button>
+            <button onClick={dismissBranchInvite} className="text-witch-sage-500/60 hover:text-witch-plum-400 transition-colors" title="Stay here">
+              ×
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       <AnimatePresence>
         {isIdle && (
           <motion.div
@@ -276,6 +352,7 @@ export function ChatRoom() {
               message={msg}
               onDissipateEnd={() => removeAfterDissipate(msg.id)}
               onAffirm={() => handleAffirm(msg.id)}
+              onReport={msg.color === identity?.color ? undefined : (reason) => handleReport(msg, reason)}
               reducedMotion={reducedMotion}
               fadeLevel={getFadeLevel(index, visibleMessages.length)}
               resonance={resonance.get(msg.id) || 0}
@@ -353,6 +430,7 @@ function StreamMessage({
   message,
   onDissipateEnd,
   onAffirm,
+  onReport,
   leaving = false,
   reducedMotion = false,
   fadeLevel = 0,
@@ -363,6 +441,7 @@ function StreamMessage({
   message: Message;
   onDissipateEnd: () => void;
   onAffirm?: () => void;
+  onReport?: (reason: string) => void;
   leaving?: boolean;
   reducedMotion?: boolean;
   fadeLevel?: number;
@@ -371,6 +450,7 @@ function StreamMessage({
   topicSubscriptions?: string[];
 }) {
   const [relativeTime, setRelativeTime] = useState(() => formatRelativeTime(message.ts));
+  const [reporting, setReporting] = useState(false);
   // Resonance slows down the dissipation - more copies = slower fade
   const resonanceMultiplier = Math.max(1, 1 + resonance * 0.5);
   const duration = reducedMotion ? 0 : leaving ? 0.5 * resonanceMultiplier : 0.4;
@@ -470,14 +550,46 @@ function StreamMessage({
               : "text-witch-parchment/95 text-sm leading-relaxed"
           }
         >
-          {message.text}
+          {message.hidden ? <span className="italic text-witch-sage-500/70">Hidden after reports, awaiting review.</span> : renderMessageText(message)}
         </span>
         {!isGhost && (
           <span className="text-[10px] text-witch-sage-500/50 ml-auto shrink-0" title={new Date(message.ts).toLocaleString()}>
             {relativeTime}
           </span>
         )}
+        {!isGhost && !message.hidden && onReport && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation(); // Not an affirmation
+              setReporting((r) => !r);
+            }}
+            className="text-[10px] text-witch-sage-500/40 hover:text-rose-400/80 shrink-0"
+            title="Report this message"
+            aria-label="Report this message"
+          >
+            ⚑
+          </button>
+        )}
       </div>
+      {reporting && onReport && (
+        <div className="flex gap-2 mt-2 text-[10px]" onClick={(e) => e.stopPropagation()}>
+          <span className="text-witch-sage-500/60">Report for:</span>
+          {REPORT_REASONS.map((reason) => (
+            <button
+              key={reason}
+              type="button"
+              onClick={() => {
+                onReport(reason);
+                setReporting(false);
+              }}
+              className="text-witch-plum-400/80 hover:text-rose-400/90"
+            >
+              {reason}
+            </button>
+          ))}
+        </div>
+      )}
     </motion.div>
   );
 }
@@ -488,8 +600,10 @@ const SLASH_HELP = `/clear       — clear your stream
 /id          — show your color & handle
 /mood        — show current atmosphere
 /copy        — copy latest message (others see you took a note)
+/report      — report the latest message from someone else (e.g. /report hate)
 /whisper     — send message in quieter style
 /summon      — gently ping someone (e.g. /summon alice)
+/branch      — move a tangent to its own room (e.g. /branch late night)
 /away        — step away (others see you're gone)
 /back        — return from away
 /subscribe   — follow a topic (e.g. /subscribe witchcraft)
@@ -500,7 +614,24 @@ const SLASH_HELP = `/clear       — clear your stream
 /shrug       — send ¯\\_(ツ)_/¯
 /flip        — send table flip
 /spark       — clear stream, fresh start
-/ping        — pong (latency)`;
+/ping        — pong (latency)
+/mod         — become a moderator (e.g. /mod secret)`;
+
+const MOD_HELP = `
+
+Moderator (target = handle or #color):
+/kick        — remove someone (e.g. /kick alice spamming)
+/mute        — mute for N minutes (e.g. /mute alice 10)
+/ban         — ban, optionally for N minutes (e.g. /ban alice 60 slurs)
+/unban       — lift a ban by id (see /bans)
+/bans        — list active bans
+/clearroom   — clear the room's stream for everyone
+/lock        — only moderators can speak
+/unlock      — reopen the room
+/links       — link mode: block, allowlist, inert (shown, not clickable) or default`;
+
+const MOD_COMMANDS = ["/kick", "/mute", "/ban", "/unban", "/bans", "/clearroom", "/lock", "/unlock", "/links"];
+const LINK_MODES: LinkMode[] = ["block", "allowlist", "inert"];
 
 const TYPING_DEBOUNCE_MS = 2000;
 
@@ -519,7 +650,7 @@ const MessageInput = React.forwardRef<
 ) {
   const [value, setValue] = useState("");
   const [persistentFeedback, setPersistentFeedback] = useState(false);
-  const { socket, identity, mood, topicSubscriptions, subscribeTopic, unsubscribeTopic, topicSoundEnabled, setTopicSoundEnabled, topicNotifyEnabled, setTopicNotifyEnabled } = useSocket();
+  const { socket, identity, mood, topicSubscriptions, subscribeTopic, unsubscribeTopic, topicSoundEnabled, setTopicSoundEnabled, topicNotifyEnabled, setTopicNotifyEnabled, isModerator, currentRoom, branchRoom } = useSocket();
   const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const showFeedback = (msg: string, persistent = false) => {
@@ -559,13 +690,19 @@ const MessageInput = React.forwardRef<
     const t = value.trim();
     if (!t) return;
     const cmd = t.toLowerCase().split(/\s/)[0];
+    const args = t.split(/\s+/).slice(1);
+    if (MOD_COMMANDS.includes(cmd) && !isModerator) {
+      showFeedback("Moderators only. Use /mod secret first.");
+      setValue("");
+      return;
+    }
     switch (cmd) {
       case "/clear":
         onClearStream();
         setValue("");
         return;
       case "/help":
-        showFeedback(SLASH_HELP, true); // Persistent until dismissed
+        showFeedback(isModerator ? SLASH_HELP + MOD_HELP : SLASH_HELP, true); // Persistent until dismissed
         setValue("");
         return;
       case "/anon":
@@ -602,6 +739,17 @@ const MessageInput = React.forwardRef<
         setValue("");
         return;
       }
+      case "/branch": {
+        const title = t.slice(7).trim();
+        if (!title) {
+          showFeedback("Usage: /branch title (e.g. /branch late night)");
+        } else {
+          branchRoom(title);
+          showFeedback(`Branching off to ${title}...`);
+        }
+        setValue("");
+        return;
+      }
       case "/away":
         if (socket) {
           socket.emit("away");
@@ -727,6 +875,123 @@ const MessageInput = React.forwardRef<
         setValue("");
         return;
       }
+      case "/report": {
+        const msgs = useStreamStore.getState().messages.filter((m) => !m.leaving && !m.ghost && !m.hidden && m.color !== identity?.color);
+        const last = msgs[msgs.length - 1];
+        if (!last) {
+          showFeedback("Nothing to report.");
+        } else {
+          socket?.emit("report", { messageId: last.id, text: last.text, reason: args.join(" ") || "No reason given" });
+        }
+        setValue("");
+        return;
+      }
+      case "/mod":
+        if (!args[0]) {
+          showFeedback("Usage: /mod secret");
+        } else if (socket) {
+          // Whichever answer comes first settles it; the others stop listening so a later one isn't taken for this
+          const onStatus = () => {
+            settle();
+            showFeedback("You are a moderator. /help lists your commands.");
+          };
+          const onFailed = (payload: { action: string; reason: string }) => {
+            if (payload.action !== "auth") return;
+            settle();
+            showFeedback(payload.reason);
+          };
+          const onLimited = (payload: { event: string }) => {
+            if (payload.event === "mod-auth") settle();
+          };
+          const settle = () => {
+            socket.off("mod-status", onStatus);
+            socket.off("mod-failed", onFailed);
+            socket.off("rate-limited", onLimited);
+          };
+          socket.on("mod-status", onStatus);
+          socket.on("mod-failed", onFailed);
+          socket.on("rate-limited", onLimited);
+          socket.emit("mod-auth", args.join(" "));
+        }
+        setValue("");
+        return;
+      case "/kick":
+        if (!args[0]) {
+          showFeedback("Usage: /kick target [reason]");
+        } else {
+          socket?.emit("mod-kick", { target: args[0], reason: args.slice(1).join(" ") || undefined });
+        }
+        setValue("");
+        return;
+      case "/mute": {
+        const minutes = parseInt(args[1], 10);
+        if (!args[0] || !(minutes > 0)) {
+          showFeedback("Usage: /mute target minutes [reason]");
+        } else {
+          socket?.emit("mod-mute", { target: args[0], minutes, reason: args.slice(2).join(" ") || undefined });
+        }
+        setValue("");
+        return;
+      }
+      case "/ban": {
+        if (!args[0]) {
+          showFeedback("Usage: /ban target [minutes] [reason]");
+          setValue("");
+          return;
+        }
+        // Second word is a duration only if it's a number; otherwise it starts the reason
+        const minutes = /^\d+$/.test(args[1] ?? "") ? parseInt(args[1], 10) : undefined;
+        const reason = args.slice(minutes ? 2 : 1).join(" ") || undefined;
+        socket?.emit("mod-ban", { target: args[0], minutes, reason });
+        setValue("");
+        return;
+      }
+      case "/unban":
+        if (!args[0]) {
+          showFeedback("Usage: /unban ban-id (see /bans)");
+        } else {
+          socket?.emit("mod-unban", { banId: args[0] });
+        }
+        setValue("");
+        return;
+      case "/bans":
+        if (socket) {
+          socket.emit("mod-list-bans");
+          socket.once("ban-list", (list) => {
+            if (list.length === 0) {
+              showFeedback("No active bans.");
+              return;
+            }
+            const lines = list.map((b) => {
+              const until = b.expiresAt ? `until ${new Date(b.expiresAt).toLocaleString()}` : "permanent";
+              return `${b.id} — ${b.label ?? "unknown"}: ${b.reason} (${until}, by ${b.moderator})`;
+            });
+            showFeedback(lines.join("\n"), true);
+          });
+        }
+        setValue("");
+        return;
+      case "/clearroom":
+        socket?.emit("mod-clear");
+        setValue("");
+        return;
+      case "/lock":
+      case "/unlock":
+        socket?.emit("mod-lock", { locked: cmd === "/lock" });
+        setValue("");
+        return;
+      case "/links": {
+        const mode = args[0]?.toLowerCase();
+        if (mode === "default") {
+          socket?.emit("mod-links", { mode: null });
+        } else if (LINK_MODES.includes(mode as LinkMode)) {
+          socket?.emit("mod-links", { mode: mode as LinkMode });
+        } else {
+          showFeedback("Usage: /links block | allowlist | inert | default");
+        }
+        setValue("");
+        return;
+      }
       default:
         break;
     }
@@ -744,7 +1009,7 @@ const MessageInput = React.forwardRef<
         onFocus={handleFocus}
         onBlur={handleBlur}
         onKeyDown={(e) => e.key === "Enter" && !e.shiftKey && submit()}
-        placeholder="Speak… (or /help)"
+        placeholder={currentRoom?.locked && !isModerator ? "The room is locked…" : "Speak… (or /help)"}
         disabled={disabled}
         className="flex-1 bg-witch-soot-800/90 border border-witch-plum-700/50 rounded-lg px-3 sm:px-4 py-3 text-sm text-witch-parchment placeholder:text-witch-sage-500/70 focus:outline-none focus:ring-1 focus:ring-witch-amber-500/50 focus:border-witch-amber-500/50 disabled:opacity-50"
       />
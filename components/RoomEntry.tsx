@@ -0,0 +1,61 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { SocketProvider } from "@/contexts/SocketProvider";
+import { ChatRoom } from "@/components/ChatRoom";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { describeOpening } from "@/components/RoomSelector";
+import type { RoomOpening } from "@/lib/protocol";
+
+interface Props {
+  roomId: string;
+  missing?: boolean; // The Socket server has no such public room: it doesn't exist (yet), or it's secret
+  opening?: RoomOpening; // Scheduled rooms; closed ones get the fallback until it's tried again
+}
+
+// A /r/[roomId] page: straight into the room, or a gentle word first when it doesn't exist or is closed
+export function RoomEntry({ roomId, missing = false, opening }: Props) {
+  const [entered, setEntered] = useState(!missing && opening?.open !== false);
+
+  if (entered) {
+    return (
+      <SocketProvider roomId={roomId}>
+        <ErrorBoundary>
+          <main className="min-h-screen">
+            <ChatRoom />
+          </main>
+        </ErrorBoundary>
+      </SocketProvider>
+    );
+  }
+
+  return (
+    <main className="min-h-screen flex items-center justify-center">
+      <div className="glass rounded-lg border border-witch-plum-900/40 p-6 max-w-sm text-center space-y-4">
+        <h1 className="text-witch-parchment/90">{missing ? `${roomId} isn't listed` : `${roomId} is closed`}</h1>
+        <p className="text-xs text-witch-sage-500/70" suppressHydrationWarning>
+          {missing
+            ? "There's no open room by that name right now. It may have emptied out and faded, never been started, or be secret, in which case going in asks for its passphrase."
+            : opening
+              ? `It's ${describeOpening(opening)}.`
+              : "It isn't open right now."}
+        </p>
+        <div className="flex gap-2 justify-center">
+          <Link
+            href="/"
+            className="px-3 py-1.5 rounded bg-witch-plum-700/70 hover:bg-witch-plum-500/80 text-xs text-witch-parchment transition-colors"
+          >
+            Go to the well
+          </Link>
+          <button
+            onClick={() => (missing ? setEntered(true) : window.location.reload())}
+            className="px-3 py-1.5 rounded bg-witch-soot-700/70 hover:bg-witch-soot-600/70 text-xs text-witch-parchment transition-colors"
+          >
+            {missing ? `Go in to ${roomId}` : "Try again"}
+          </button>
+        </div>
+      </div>
+    </main>
+  );
+}
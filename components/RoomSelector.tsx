@@ -2,19 +2,472 @@
 
 import React, { useState, useEffect, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { useSocket, type RoomListItem } from "@/contexts/SocketProvider";
+import { useSocket, type RoomInfo, type RoomListItem } from "@/contexts/SocketProvider";
 import { getSocket } from "@/lib/socket";
+import type { RoomInvite, RoomOpening, RoomSchedule, RoomScheduleInput, StreamSettings } from "@/lib/protocol";
+
+const INPUT_CLASS =
+  "w-full bg-witch-soot-800/90 border border-witch-plum-700/50 rounded px-2 py-1.5 text-xs text-witch-parchment placeholder:text-witch-sage-500/70 focus:outline-none focus:ring-1 focus:ring-witch-amber-500/50";
+
+// Full URL for an invite's link (the server only knows the path)
+function inviteUrl(invite: RoomInvite): string {
+  return typeof window === "undefined" ? invite.link : `${window.location.origin}${invite.link}`;
+}
+
+function describeInvite(invite: RoomInvite): string {
+  const hours = Math.round((invite.expiresAt - Date.now()) / 3600000);
+  return `${invite.maxUses} use${invite.maxUses === 1 ? "" : "s"}, expires in ${hours >= 1 ? `${hours}h` : "under an hour"}`;
+}
+
+// Opening hours as edited in a form; "always" means no schedule
+type ScheduleDraft = {
+  kind: "always" | RoomScheduleInput["kind"];
+  days: number[];
+  open: string;
+  close: string;
+  start: string;
+  end: string;
+  timeZone: string;
+};
+
+const DAY_LABELS = ["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"];
+
+function scheduleToDraft(schedule?: RoomSchedule | null): ScheduleDraft {
+  const draft: ScheduleDraft = {
+    kind: "always",
+    days: [1, 2, 3, 4, 5],
+    open: "20:00",
+    close: "23:00",
+    start: "",
+    end: "",
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+  };
+  if (!schedule) return draft;
+  if (schedule.kind === "once") return { ...draft, kind: "once", start: schedule.start, end: schedule.end, timeZone: schedule.timeZone };
+  return { ...draft, kind: schedule.kind, days: schedule.days, open: schedule.open, close: schedule.close, timeZone: schedule.timeZone };
+}
+
+function draftToSchedule(draft: ScheduleDraft): RoomScheduleInput | null {
+  if (draft.kind === "always") return null;
+  if (draft.kind === "once") return { kind: "once", start: draft.start, end: draft.end, timeZone: draft.timeZone };
+  return { kind: draft.kind, days: draft.days, open: draft.open, close: draft.close, timeZone: draft.timeZone };
+}
+
+// Enough filled in to send; the server checks the rest
+function draftReady(draft: ScheduleDraft): boolean {
+  if (draft.kind === "always") return true;
+  if (!draft.timeZone.trim()) return false;
+  if (draft.kind === "once") return !!draft.start && !!draft.end;
+  return !!draft.open && !!draft.close && (draft.kind === "daily" || draft.days.length > 0);
+}
+
+// A moment in the viewer's own time: just the time today, the weekday within the week, else the date
+function formatWhen(ts: number): string {
+  const date = new Date(ts);
+  const time = date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  const ahead = ts - Date.now();
+  if (ahead < 20 * 3600000) return time;
+  if (ahead < 6 * 24 * 3600000) return `${date.toLocaleDateString([], { weekday: "short" })} ${time}`;
+  return `${date.toLocaleDateString([], { month: "short", day: "numeric" })} ${time}`;
+}
+
+export function describeOpening(opening: RoomOpening): string {
+  if (opening.open) return opening.closesAt ? `open until ${formatWhen(opening.closesAt)}` : "open";
+  return opening.opensAt ? `closed, opens ${formatWhen(opening.opensAt)}` : "closed for good";
+}
+
+// Mood of a room in the directory, as a dot beside its presence count
+const MOOD_DOT: Record<RoomListItem["mood"], string> = {
+  calm: "bg-witch-forest-500/70",
+  neutral: "bg-witch-plum-500/70",
+  intense: "bg-witch-amber-500/80",
+};
+
+type RoomSort = "lively" | "recent";
+
+// "quiet for 12m" once a room has gone a few minutes without a message
+function describeQuiet(lastActivity: number, now: number): string | null {
+  const minutes = Math.floor((now - lastActivity) / 60000);
+  if (minutes < 5) return null;
+  if (minutes < 60) return `quiet for ${minutes}m`;
+  if (minutes < 48 * 60) return `quiet for ${Math.floor(minutes / 60)}h`;
+  return `quiet for ${Math.floor(minutes / (24 * 60))}d`;
+}
+
+// Rooms matching the search, liveliest (most present, then most recent) or most recent first
+function arrangeRooms(rooms: RoomListItem[], query: string, sort: RoomSort): RoomListItem[] {
+  const q = query.trim().toLowerCase();
+  const matching = q
+    ? rooms.filter((room) => room.title.toLowerCase().includes(q) || room.description?.toLowerCase().includes(q))
+    : rooms;
+  return [...matching].sort((a, b) =>
+    sort === "lively" && a.presence !== b.presence ? b.presence - a.presence : b.lastActivity - a.lastActivity
+  );
+}
+
+// Branches follow their parent room, nested as deep as they go; a branch whose parent isn't shown stands on its own
+function nestBranches(rooms: RoomListItem[]): { room: RoomListItem; depth: number }[] {
+  const shown = new Set(rooms.map((room) => room.id));
+  const placed = new Set<string>();
+  const nested: { room: RoomListItem; depth: number }[] = [];
+  const place = (room: RoomListItem, depth: number) => {
+    if (placed.has(room.id)) return;
+    placed.add(room.id);
+    nested.push({ room, depth });
+    for (const child of rooms) {
+      if (child.parentId === room.id) place(child, depth + 1);
+    }
+  };
+  for (const room of rooms) {
+    if (!room.parentId || !shown.has(room.parentId)) place(room, 0);
+  }
+  // A parent id reused by one of its own branches leaves a loop with no top; show those flat
+  for (const room of rooms) place(room, 0);
+  return nested;
+}
+
+// Opening hours: always open, every day, some weekdays, or a one-off window, in a stated time zone
+function ScheduleFields({ draft, onChange }: { draft: ScheduleDraft; onChange: (draft: ScheduleDraft) => void }) {
+  const update = (changes: Partial<ScheduleDraft>) => onChange({ ...draft, ...changes });
+  const toggleDay = (day: number) =>
+    update({ days: draft.days.includes(day) ? draft.days.filter((d) => d !== day) : [...draft.days, day].sort((a, b) => a - b) });
+
+  return (
+    <div className="space-y-1.5">
+      <select
+        value={draft.kind}
+        onChange={(e) => update({ kind: e.target.value as ScheduleDraft["kind"] })}
+        className={INPUT_CLASS}
+      >
+        <option value="always">Always open</option>
+        <option value="daily">Open daily</option>
+        <option value="weekly">Open on some days</option>
+        <option value="once">Open once</option>
+      </select>
+      {draft.kind === "weekly" && (
+        <div className="flex gap-0.5">
+          {DAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleDay(day)}
+              className={`flex-1 py-1 rounded text-[10px] transition-colors ${
+                draft.days.includes(day) ? "bg-witch-plum-700/70 text-witch-parchment" : "bg-witch-soot-800/90 text-witch-sage-500/70"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+      {(draft.kind === "daily" || draft.kind === "weekly") && (
+        <div className="flex items-center gap-1 text-[10px] text-witch-sage-500/70">
+          <input type="time" value={draft.open} onChange={(e) => update({ open: e.target.value })} className={INPUT_CLASS} />
+          to
+          <input type="time" value={draft.close} onChange={(e) => update({ close: e.target.value })} className={INPUT_CLASS} />
+        </div>
+      )}
+      {draft.kind === "once" && (
+        <>
+          <input type="datetime-local" value={draft.start} onChange={(e) => update({ start: e.target.value })} className={INPUT_CLASS} />
+          <input type="datetime-local" value={draft.end} onChange={(e) => update({ end: e.target.value })} className={INPUT_CLASS} />
+        </>
+      )}
+      {draft.kind !== "always" && (
+        <input
+          type="text"
+          value={draft.timeZone}
+          onChange={(e) => update({ timeZone: e.target.value })}
+          placeholder="Time zone, e.g. Europe/Berlin"
+          className={INPUT_CLASS}
+        />
+      )}
+    </div>
+  );
+}
+
+// Stream settings as the keeper edits them, in friendlier units than the milliseconds on the wire
+const SETTING_FIELDS: Array<{ key: keyof StreamSettings; label: string; unit: number }> = [
+  { key: "ghostMessages", label: "Ghost messages for newcomers", unit: 1 },
+  { key: "visibleMessages", label: "Clear messages", unit: 1 },
+  { key: "fadedMessages", label: "Fading messages", unit: 1 },
+  { key: "presenceGhostMs", label: "Departed linger (min)", unit: 60000 },
+  { key: "silenceMs", label: "Silence settles after (s)", unit: 1000 },
+  { key: "moodDecayMs", label: "Mood calms after (min)", unit: 60000 },
+  { key: "awayMs", label: "Away disconnects after (min)", unit: 60000 },
+];
+
+type SettingsDraft = Partial<Record<keyof StreamSettings, string>>;
+
+function settingsToDraft(settings?: StreamSettings): SettingsDraft {
+  if (!settings) return {};
+  return Object.fromEntries(SETTING_FIELDS.map(({ key, unit }) => [key, String(settings[key] / unit)]));
+}
+
+// Only what changed; the server keeps each value within its limits
+function draftToSettings(draft: SettingsDraft, current?: StreamSettings): Partial<StreamSettings> {
+  const changes: Partial<StreamSettings> = {};
+  for (const { key, unit } of SETTING_FIELDS) {
+    const value = Math.round(parseFloat(draft[key] ?? "") * unit);
+    if (Number.isFinite(value) && value !== current?.[key]) changes[key] = value;
+  }
+  return changes;
+}
+
+function SettingsFields({ draft, onChange }: { draft: SettingsDraft; onChange: (draft: SettingsDraft) => void }) {
+  return (
+    <div className="space-y-1">
+      {SETTING_FIELDS.map(({ key, label, unit }) => (
+        <label key={key} className="flex items-center justify-between gap-2 text-[10px] text-witch-sage-500/80">
+          {label}
+          <input
+            type="number"
+            min={0}
+            step={unit === 60000 ? 0.5 : 1}
+            value={draft[key] ?? ""}
+            onChange={(e) => onChange({ ...draft, [key]: e.target.value })}
+            className={`${INPUT_CLASS} w-14 shrink-0`}
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
+
+// Ticks down to a scheduled closing
+function ClosingCountdown({ closesAt }: { closesAt: number }) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+  const seconds = Math.max(0, Math.ceil((closesAt - now) / 1000));
+  return (
+    <span className="text-[10px] text-witch-amber-500/80 tabular-nums" title="Everyone here moves to the well when the room closes">
+      closes in {Math.floor(seconds / 60)}:{String(seconds % 60).padStart(2, "0")}
+    </span>
+  );
+}
+
+// Keeper tools for the current room: rename, describe, secrecy, hours, pin, stream settings, hand off, delete
+// (the server checks keepership)
+function KeeperPanel({ room }: { room: RoomInfo }) {
+  const socket = getSocket();
+  const isMain = room.id === "main";
+  const [editing, setEditing] = useState(false);
+  const [title, setTitle] = useState(room.title);
+  const [description, setDescription] = useState(room.description ?? "");
+  const [secret, setSecret] = useState(room.secret);
+  const [schedule, setSchedule] = useState(() => scheduleToDraft(room.schedule));
+  const [pinned, setPinned] = useState(!!room.pinned);
+  const [settings, setSettings] = useState(() => settingsToDraft(room.settings));
+  const [tuning, setTuning] = useState(false);
+  const [heir, setHeir] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  // Start from the room as it is now whenever the form opens or the room changes under it
+  useEffect(() => {
+    setTitle(room.title);
+    setDescription(room.description ?? "");
+    setSecret(room.secret);
+    setSchedule(scheduleToDraft(room.schedule));
+    setPinned(!!room.pinned);
+    setSettings(settingsToDraft(room.settings));
+    setConfirmDelete(false);
+  }, [room.id, room.title, room.description, room.secret, room.schedule, room.pinned, room.settings, editing]);
+
+  const handleSave = () => {
+    const changes: { title?: string; description?: string | null; secret?: boolean; schedule?: RoomScheduleInput | null; pinned?: boolean; settings?: Partial<StreamSettings> } = {};
+    if (!isMain && title.trim() && title.trim() !== room.title) changes.title = title.trim();
+    if (description.trim() !== (room.description ?? "")) changes.description = description.trim() || null;
+    if (!isMain && secret !== room.secret) changes.secret = secret;
+    if (!isMain && pinned !== !!room.pinned) changes.pinned = pinned;
+    const tuned = draftToSettings(settings, room.settings);
+    if (Object.keys(tuned).length > 0) changes.settings = tuned;
+    const hours = draftToSchedule(schedule);
+    if (!isMain && JSON.stringify(hours) !== JSON.stringify(draftToSchedule(scheduleToDraft(room.schedule)))) changes.schedule = hours;
+    if (Object.keys(changes).length > 0) socket?.emit("update-room", changes);
+    setEditing(false);
+  };
+
+  const handleHandOff = () => {
+    if (!heir.trim()) return;
+    socket?.emit("hand-off-room", { target: heir.trim() });
+    setHeir("");
+  };
+
+  const handleDelete = () => {
+    if (!confirmDelete) {
+      setConfirmDelete(true);
+      return;
+    }
+    socket?.emit("delete-room", { roomId: room.id });
+    setConfirmDelete(false);
+  };
+
+  if (!editing) {
+    return (
+      <div className="p-2 border-t border-witch-plum-900/30">
+        <button
+          onClick={() => setEditing(true)}
+          className="w-full px-2 py-1.5 rounded bg-witch-soot-700/70 hover:bg-witch-soot-600/70 text-xs text-witch-sage-500/90 transition-colors"
+        >
+          Keep this room
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-2 border-t border-witch-plum-900/30 space-y-2">
+      {!isMain && (
+        <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Room name..." className={INPUT_CLASS} />
+      )}
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="What is this room for? (optional)"
+        rows={2}
+        maxLength={200}
+        className={`${INPUT_CLASS} resize-none`}
+      />
+      {!isMain && (
+        <label className="flex items-center gap-2 text-xs text-witch-sage-500/80 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={secret}
+            onChange={(e) => setSecret(e.target.checked)}
+            className="w-3 h-3 rounded bg-witch-soot-800 border-witch-plum-700/50"
+          />
+          Secret (invite only)
+        </label>
+      )}
+      {!isMain && room.secret && !secret && (
+        <p className="text-[10px] text-witch-sage-500/60 px-1">Going public drops the passphrase and voids every invite</p>
+      )}
+      {!isMain && (
+        <label className="flex items-center gap-2 text-xs text-witch-sage-500/80 cursor-pointer" title="Unpinned rooms are cleared away after sitting empty for a while">
+          <input
+            type="checkbox"
+            checked={pinned}
+            onChange={(e) => setPinned(e.target.checked)}
+            className="w-3 h-3 rounded bg-witch-soot-800 border-witch-plum-700/50"
+          />
+          Pinned (kept even when empty)
+        </label>
+      )}
+      {!isMain && <ScheduleFields draft={schedule} onChange={setSchedule} />}
+      {room.settings && (
+        <button
+          type="button"
+          onClick={() => setTuning(!tuning)}
+          className="text-[10px] text-witch-sage-500/70 hover:text-witch-plum-400 transition-colors px-1"
+        >
+          {tuning ? "Hide stream settings" : "Stream settings..."}
+        </button>
+      )}
+      {tuning && <SettingsFields draft={settings} onChange={setSettings} />}
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          disabled={!isMain && (!title.trim() || !draftReady(schedule))}
+          className="flex-1 px-2 py-1.5 rounded bg-witch-plum-700/70 hover:bg-witch-plum-500/80 text-xs text-witch-parchment disabled:opacity-50 transition-colors"
+        >
+          Save
+        </button>
+        <button
+          onClick={() => setEditing(false)}
+          className="px-2 py-1.5 rounded bg-witch-soot-700/70 hover:bg-witch-soot-600/70 text-xs text-witch-parchment transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+      {!isMain && (
+        <>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={heir}
+              onChange={(e) => setHeir(e.target.value)}
+              placeholder="Hand off to (handle or #color)"
+              className={`${INPUT_CLASS} flex-1 min-w-0`}
+              onKeyDown={(e) => e.key === "Enter" && handleHandOff()}
+            />
+            <button
+              onClick={handleHandOff}
+              disabled={!heir.trim()}
+              className="px-2 py-1.5 rounded bg-witch-soot-700/70 hover:bg-witch-soot-600/70 text-xs text-witch-parchment disabled:opacity-50 transition-colors"
+            >
+              Hand off
+            </button>
+          </div>
+          <button
+            onClick={handleDelete}
+            className="w-full px-2 py-1.5 rounded bg-witch-soot-700/70 hover:bg-red-900/40 text-xs text-red-300/80 transition-colors"
+          >
+            {confirmDelete ? "Delete? Everyone here moves to the well" : "Delete room"}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
 
 export function RoomSelector() {
-  const { currentRoom, roomList } = useSocket();
+  const { currentRoom, roomList, switchRoom, accessPrompt, dismissAccessPrompt, isKeeper, roomClosingAt, isModerator, listening, listenRoom, unlistenRoom, branchRoom } =
+    useSocket();
   const [isOpen, setIsOpen] = useState(false);
   const [showCreateRoom, setShowCreateRoom] = useState(false);
   const [newRoomTitle, setNewRoomTitle] = useState("");
   const [isSecret, setIsSecret] = useState(false);
+  const [newPassphrase, setNewPassphrase] = useState("");
+  const [newSchedule, setNewSchedule] = useState(() => scheduleToDraft(null));
   const [isCreating, setIsCreating] = useState(false);
+  const [showBranch, setShowBranch] = useState(false);
+  const [branchTitle, setBranchTitle] = useState("");
+  const [invite, setInvite] = useState<RoomInvite | null>(null);
+  const [inviteCopied, setInviteCopied] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState<RoomSort>("lively");
+  const [now, setNow] = useState(() => Date.now());
   const dropdownRef = useRef<HTMLDivElement>(null);
   const socket = getSocket();
 
+  // A secret room asked for its passphrase: open up and ask
+  useEffect(() => {
+    if (accessPrompt) {
+      setIsOpen(true);
+      setPassphrase("");
+    }
+  }, [accessPrompt]);
+
+  // Invites made from inside a secret room
+  useEffect(() => {
+    if (!socket) return;
+    const onInviteCreated = (created: RoomInvite) => {
+      setInvite(created);
+      setInviteCopied(false);
+    };
+    socket.on("invite-created", onInviteCreated);
+    return () => {
+      socket.off("invite-created", onInviteCreated);
+    };
+  }, [socket]);
+
+  // An invite belongs to one room; drop it once we're somewhere else
+  useEffect(() => {
+    setInvite((prev) => (prev && prev.roomId !== currentRoom?.id ? null : prev));
+  }, [currentRoom?.id]);
+
+  // Keep "quiet for" hints ticking while the list is showing
+  useEffect(() => {
+    if (!isOpen) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, [isOpen]);
+
   // Click-outside handler to dismiss dropdown (Issue #10)
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -33,10 +486,30 @@ export function RoomSelector() {
       setIsOpen(false);
       return;
     }
-    socket?.emit("switch-room", { roomId });
+    switchRoom(roomId);
     setIsOpen(false);
   };
 
+  const handleSubmitPassphrase = () => {
+    if (!accessPrompt || !passphrase) return;
+    switchRoom(accessPrompt.roomId, { passphrase });
+    setPassphrase("");
+  };
+
+  const handleCreateInvite = () => {
+    socket?.emit("create-invite", {});
+  };
+
+  const handleCopyInvite = async () => {
+    if (!invite) return;
+    try {
+      await navigator.clipboard.writeText(inviteUrl(invite));
+      setInviteCopied(true);
+    } catch {
+      setInviteCopied(false);
+    }
+  };
+
   const handleCreateRoom = () => {
     if (!newRoomTitle.trim() || isCreating) return;
     setIsCreating(true);
@@ -49,13 +522,21 @@ export function RoomSelector() {
       setIsCreating(false);
     };
 
-    const onRoomCreated = (data: { roomId: string }) => {
+    const onRoomCreated = (data: { roomId: string; invite?: RoomInvite }) => {
       cleanup();
-      socket?.emit("switch-room", { roomId: data.roomId });
+      switchRoom(data.roomId);
       setNewRoomTitle("");
       setIsSecret(false);
+      setNewPassphrase("");
+      setNewSchedule(scheduleToDraft(null));
       setShowCreateRoom(false);
-      setIsOpen(false);
+      // Secret rooms come with an invite: stay open so it can be copied
+      if (data.invite) {
+        setInvite(data.invite);
+        setInviteCopied(false);
+      } else {
+        setIsOpen(false);
+      }
     };
 
     const onRoomFailed = () => {
@@ -69,16 +550,28 @@ export function RoomSelector() {
 
     socket?.on("room-created", onRoomCreated);
     socket?.on("room-create-failed", onRoomFailed);
-    socket?.emit("create-room", { title: newRoomTitle.trim(), secret: isSecret });
+    const passphraseToSet = isSecret ? newPassphrase.trim() : "";
+    const schedule = draftToSchedule(newSchedule);
+    socket?.emit("create-room", {
+      title: newRoomTitle.trim(),
+      secret: isSecret,
+      ...(passphraseToSet ? { passphrase: passphraseToSet } : {}),
+      ...(schedule ? { schedule } : {}),
+    });
   };
 
-  const handleRefreshRooms = () => {
-    socket?.emit("list-rooms");
+  const shownRooms = nestBranches(arrangeRooms(roomList, search, sort));
+
+  const handleBranch = () => {
+    if (!branchTitle.trim()) return;
+    branchRoom(branchTitle.trim());
+    setBranchTitle("");
+    setShowBranch(false);
+    setIsOpen(false);
   };
 
-  const handleDeleteRoom = (e: React.MouseEvent, roomId: string) => {
-    e.stopPropagation();
-    socket?.emit("delete-room", { roomId });
+  const handleRefreshRooms = () => {
+    socket?.emit("list-rooms");
   };
 
   return (
@@ -89,7 +582,7 @@ export function RoomSelector() {
           if (!isOpen) handleRefreshRooms();
         }}
         className="flex items-center gap-1.5 text-witch-plum-400/90 hover:text-witch-plum-300 transition-colors text-xs sm:text-sm"
-        title="Switch rooms"
+        title={currentRoom?.description || "Switch rooms"}
       >
         <span className="font-medium">{currentRoom?.title || "the well"}</span>
         <svg
@@ -101,10 +594,14 @@ export function RoomSelector() {
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
         </svg>
         {currentRoom?.secret && (
-          <span className="text-[10px] text-witch-sage-500/60" title="Secret room">
+          <span className="text-[10px] text-witch-sage-500/60" title={currentRoom.hasPassphrase ? "Secret room, passphrase protected" : "Secret room"}>
             (secret)
           </span>
         )}
+        {roomClosingAt && <ClosingCountdown closesAt={roomClosingAt} />}
+        {listening.some((room) => room.unread > 0) && (
+          <span className="w-1.5 h-1.5 rounded-full bg-witch-amber-400/80 animate-pulse" title="New messages in rooms you listen to" />
+        )}
       </button>
 
       <AnimatePresence>
@@ -119,6 +616,14 @@ export function RoomSelector() {
             <div className="p-2 border-b border-witch-plum-900/30">
               <div className="flex items-center justify-between text-[10px] text-witch-sage-500/70 px-2">
                 <span>ROOMS</span>
+                <span className="flex-1" />
+                <button
+                  onClick={() => setSort(sort === "lively" ? "recent" : "lively")}
+                  className="mr-2 hover:text-witch-plum-400 transition-colors"
+                  title={sort === "lively" ? "Liveliest first; switch to most recent" : "Most recent first; switch to liveliest"}
+                >
+                  {sort === "lively" ? "LIVELY" : "RECENT"}
+                </button>
                 <button
                   onClick={handleRefreshRooms}
                   className="hover:text-witch-plum-400 transition-colors"
@@ -129,15 +634,92 @@ export function RoomSelector() {
                   </svg>
                 </button>
               </div>
+              {roomList.length > 0 && (
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search rooms..."
+                  className={`${INPUT_CLASS} mt-1.5`}
+                />
+              )}
             </div>
 
+            {accessPrompt && (
+              <div className="p-2 border-b border-witch-plum-900/30 space-y-2">
+                <p className="text-[10px] text-witch-sage-500/80 px-1">
+                  <span className="text-witch-parchment/90">{accessPrompt.roomId}</span> - {accessPrompt.reason}
+                </p>
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder="Passphrase..."
+                  className="w-full bg-witch-soot-800/90 border border-witch-plum-700/50 rounded px-2 py-1.5 text-xs text-witch-parchment placeholder:text-witch-sage-500/70 focus:outline-none focus:ring-1 focus:ring-witch-amber-500/50"
+                  onKeyDown={(e) => e.key === "Enter" && handleSubmitPassphrase()}
+                  autoFocus
+                />
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleSubmitPassphrase}
+                    disabled={!passphrase}
+                    className="flex-1 px-2 py-1.5 rounded bg-witch-plum-700/70 hover:bg-witch-plum-500/80 text-xs text-witch-parchment disabled:opacity-50 transition-colors"
+                  >
+                    Enter
+                  </button>
+                  <button
+                    onClick={dismissAccessPrompt}
+                    className="px-2 py-1.5 rounded bg-witch-soot-700/70 hover:bg-witch-soot-600/70 text-xs text-witch-parchment transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {listening.length > 0 && (
+              <div className="py-1 border-b border-witch-plum-900/30">
+                <p className="text-[10px] text-witch-sage-500/70 px-4 pb-1">LISTENING</p>
+                {listening.map((room) => (
+                  <div key={room.id} className="px-3 py-1.5 hover:bg-witch-plum-900/30 transition-colors flex items-center gap-2">
+                    <span className={`w-1.5 h-1.5 rounded-full ${MOOD_DOT[room.mood] || MOOD_DOT.neutral}`} title={`Mood: ${room.mood}`} />
+                    <button onClick={() => handleRoomClick(room.id)} className="flex-1 text-left text-xs text-witch-parchment/80 truncate" title="Go in and speak here">
+                      {room.title}
+                    </button>
+                    {room.unread > 0 && (
+                      <motion.span
+                        key={room.pulsedAt}
+                        initial={{ scale: 1.6, opacity: 1 }}
+                        animate={{ scale: 1, opacity: 0.8 }}
+                        transition={{ duration: 0.6 }}
+                        className="min-w-[1rem] px-1 rounded-full bg-witch-amber-500/70 text-[9px] text-witch-soot-950 text-center"
+                        title={`${room.unread} new`}
+                      >
+                        {room.unread > 99 ? "99+" : room.unread}
+                      </motion.span>
+                    )}
+                    <button
+                      onClick={() => unlistenRoom(room.id)}
+                      className="text-[10px] text-witch-sage-500/60 hover:text-witch-plum-400 transition-colors"
+                      title="Stop listening"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
             <div className="max-h-48 overflow-y-auto">
               {roomList.length === 0 ? (
                 <p className="text-xs text-witch-sage-500/60 p-3 text-center">No public rooms</p>
+              ) : shownRooms.length === 0 ? (
+                <p className="text-xs text-witch-sage-500/60 p-3 text-center">No rooms match</p>
               ) : (
-                roomList.map((room: RoomListItem) => (
+                shownRooms.map(({ room, depth }) => (
                   <div
                     key={room.id}
+                    style={depth > 0 ? { paddingLeft: `${0.75 + depth}rem` } : undefined}
                     className={`w-full px-3 py-2 hover:bg-witch-plum-900/30 transition-colors flex items-center justify-between group ${
                       currentRoom?.id === room.id ? "bg-witch-plum-900/20" : ""
                     }`}
@@ -146,25 +728,37 @@ export function RoomSelector() {
                       onClick={() => handleRoomClick(room.id)}
                       className="flex-1 text-left"
                     >
-                      <span className="text-xs text-witch-parchment/90 truncate">{room.title}</span>
+                      <span className={`text-xs truncate ${room.opening?.open === false ? "text-witch-parchment/50" : "text-witch-parchment/90"}`}>
+                        {depth > 0 && <span className="text-witch-sage-500/50 mr-1">↳</span>}
+                        {room.title}
+                      </span>
+                      {room.description && (
+                        <span className="block text-[10px] text-witch-sage-500/60 truncate">{room.description}</span>
+                      )}
+                      {room.opening && (
+                        <span className="block text-[10px] text-witch-amber-500/60 truncate">{describeOpening(room.opening)}</span>
+                      )}
+                      {describeQuiet(room.lastActivity, now) && (
+                        <span className="block text-[10px] text-witch-sage-500/50 truncate">{describeQuiet(room.lastActivity, now)}</span>
+                      )}
                     </button>
                     <div className="flex items-center gap-2">
-                      <span className="text-[10px] text-witch-sage-500/60 flex items-center gap-1">
-                        <span className="w-1.5 h-1.5 rounded-full bg-witch-forest-500/70" />
-                        {room.presence}
-                      </span>
-                      {room.id !== "main" && (
+                      {currentRoom?.id !== room.id && !listening.some((r) => r.id === room.id) && (
                         <button
-                          onClick={(e) => handleDeleteRoom(e, room.id)}
-                          disabled={room.presence > 0}
-                          className={`text-witch-sage-500/50 hover:text-red-400/80 transition-all ${room.presence > 0 ? "opacity-30 cursor-not-allowed" : ""}`}
-                          title={room.presence > 0 ? "Room must be empty to delete" : "Delete room"}
+                          onClick={() => listenRoom(room.id)}
+                          className="text-[10px] text-witch-sage-500/60 hover:text-witch-plum-400 sm:opacity-0 sm:group-hover:opacity-100 transition"
+                          title="Listen from here: new messages pulse, you stay where you are"
                         >
-                          <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                          </svg>
+                          listen
                         </button>
                       )}
+                      <span
+                        className="text-[10px] text-witch-sage-500/60 flex items-center gap-1"
+                        title={`Mood: ${room.mood}${room.listeners > 0 ? `, ${room.listeners} listening` : ""}`}
+                      >
+                        <span className={`w-1.5 h-1.5 rounded-full ${MOOD_DOT[room.mood] || MOOD_DOT.neutral}`} />
+                        {room.presence}
+                      </span>
                     </div>
                   </div>
                 ))
@@ -192,10 +786,25 @@ export function RoomSelector() {
                     />
                     Secret (invite only)
                   </label>
+                  {isSecret && (
+                    <input
+                      type="password"
+                      value={newPassphrase}
+                      onChange={(e) => setNewPassphrase(e.target.value)}
+                      placeholder="Passphrase (optional, 4+ characters)"
+                      className="w-full bg-witch-soot-800/90 border border-witch-plum-700/50 rounded px-2 py-1.5 text-xs text-witch-parchment placeholder:text-witch-sage-500/70 focus:outline-none focus:ring-1 focus:ring-witch-amber-500/50"
+                      onKeyDown={(e) => e.key === "Enter" && handleCreateRoom()}
+                    />
+                  )}
+                  <ScheduleFields draft={newSchedule} onChange={setNewSchedule} />
                   <div className="flex gap-2">
                     <button
                       onClick={handleCreateRoom}
-                      disabled={!newRoomTitle.trim()}
+                      disabled={
+                        !newRoomTitle.trim() ||
+                        (isSecret && newPassphrase.trim().length > 0 && newPassphrase.trim().length < 4) ||
+                        !draftReady(newSchedule)
+                      }
                       className="flex-1 px-2 py-1.5 rounded bg-witch-plum-700/70 hover:bg-witch-plum-500/80 text-xs text-witch-parchment disabled:opacity-50 transition-colors"
                     >
                       Create
@@ -205,6 +814,41 @@ export function RoomSelector() {
                         setShowCreateRoom(false);
                         setNewRoomTitle("");
                         setIsSecret(false);
+                        setNewPassphrase("");
+                        setNewSchedule(scheduleToDraft(null));
+                      }}
+                      className="px-2 py-1.5 rounded bg-witch-soot-700/70 hover:bg-witch-soot-600/70 text-xs text-witch-parchment transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : showBranch ? (
+                <div className="space-y-2">
+                  <input
+                    type="text"
+                    value={branchTitle}
+                    onChange={(e) => setBranchTitle(e.target.value)}
+                    placeholder="Branch name..."
+                    className={INPUT_CLASS}
+                    onKeyDown={(e) => e.key === "Enter" && handleBranch()}
+                    autoFocus
+                  />
+                  <p className="text-[10px] text-witch-sage-500/60 px-1">
+                    The last few messages come along as ghosts, and whoever wrote them is invited
+                  </p>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleBranch}
+                      disabled={!branchTitle.trim()}
+                      className="flex-1 px-2 py-1.5 rounded bg-witch-plum-700/70 hover:bg-witch-plum-500/80 text-xs text-witch-parchment disabled:opacity-50 transition-colors"
+                    >
+                      Branch
+                    </button>
+                    <button
+                      onClick={() => {
+                        setShowBranch(false);
+                        setBranchTitle("");
                       }}
                       className="px-2 py-1.5 rounded bg-witch-soot-700/70 hover:bg-witch-soot-600/70 text-xs text-witch-parchment transition-colors"
                     >
@@ -213,21 +857,63 @@ export function RoomSelector() {
                   </div>
                 </div>
               ) : (
-                <button
-                  onClick={() => setShowCreateRoom(true)}
-                  className="w-full px-2 py-1.5 rounded bg-witch-soot-700/70 hover:bg-witch-soot-600/70 text-xs text-witch-sage-500/90 transition-colors flex items-center justify-center gap-1"
-                >
-                  <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-                  </svg>
-                  New Room
-                </button>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setShowCreateRoom(true)}
+                    className="flex-1 px-2 py-1.5 rounded bg-witch-soot-700/70 hover:bg-witch-soot-600/70 text-xs text-witch-sage-500/90 transition-colors flex items-center justify-center gap-1"
+                  >
+                    <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                    </svg>
+                    New Room
+                  </button>
+                  <button
+                    onClick={() => setShowBranch(true)}
+                    className="flex-1 px-2 py-1.5 rounded bg-witch-soot-700/70 hover:bg-witch-soot-600/70 text-xs text-witch-sage-500/90 transition-colors"
+                    title={`Move a tangent out of ${currentRoom?.title || "this room"} into its own room`}
+                  >
+                    Branch
+                  </button>
+                </div>
               )}
             </div>
 
+            {currentRoom && (isKeeper || isModerator) && <KeeperPanel room={currentRoom} />}
+
+            {currentRoom?.secret && (
+              <div className="p-2 border-t border-witch-plum-900/30 space-y-1.5">
+                {invite ? (
+                  <>
+                    <div className="flex gap-2">
+                      <input
+                        readOnly
+                        value={inviteUrl(invite)}
+                        onFocus={(e) => e.target.select()}
+                        className="flex-1 min-w-0 bg-witch-soot-800/90 border border-witch-plum-700/50 rounded px-2 py-1 text-[10px] text-witch-parchment/80 font-mono"
+                      />
+                      <button
+                        onClick={handleCopyInvite}
+                        className="px-2 py-1 rounded bg-witch-plum-700/70 hover:bg-witch-plum-500/80 text-[10px] text-witch-parchment transition-colors"
+                      >
+                        {inviteCopied ? "Copied" : "Copy"}
+                      </button>
+                    </div>
+                    <p className="text-[10px] text-witch-sage-500/60 px-1">Invite link: {describeInvite(invite)}</p>
+                  </>
+                ) : (
+                  <button
+                    onClick={handleCreateInvite}
+                    className="w-full px-2 py-1.5 rounded bg-witch-soot-700/70 hover:bg-witch-soot-600/70 text-xs text-witch-sage-500/90 transition-colors"
+                  >
+                    Invite someone
+                  </button>
+                )}
+              </div>
+            )}
+
             <div className="px-3 py-2 border-t border-witch-plum-900/30">
               <p className="text-[10px] text-witch-sage-500/50 leading-relaxed">
-                Join secret rooms via URL: /room-name
+                Secret rooms are entered with an invite link or their passphrase
               </p>
             </div>
           </motion.div>
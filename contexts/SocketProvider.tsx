@@ -4,8 +4,26 @@ import React, { createContext, useContext, useEffect, useRef, useState } from "r
 import { connectSocket, getSocket } from "@/lib/socket";
 import { useStreamStore } from "@/lib/store/useStreamStore";
 import { useSound } from "@/hooks/useSound";
-
-type Mood = "calm" | "neutral" | "intense";
+import type {
+  AttentionState,
+  BranchInvite,
+  CrosstalkParticipant,
+  DMMessage,
+  Identity,
+  LinkMode,
+  ListeningRoom,
+  ModerationNotice,
+  Mood,
+  PresenceGhost,
+  RoomCredentials,
+  RoomInfo,
+  RoomListItem,
+  SpamFlag,
+  StrikeInfo,
+  StrikeStep,
+} from "@/lib/protocol";
+
+export type { AttentionState, BranchInvite, CrosstalkParticipant, DMMessage, Identity, PresenceGhost, RoomInfo, RoomListItem };
 
 const IDENTITY_STORAGE_KEY = "witchat_identity";
 const STREAM_STORAGE_KEY = "witchat_stream";
@@ -13,6 +31,52 @@ const CLIENT_ID_KEY = "witchat_client_id";
 const TOPICS_STORAGE_KEY = "witchat_topics";
 const TOPIC_SOUND_KEY = "witchat_topic_sound";
 const TOPIC_NOTIFY_KEY = "witchat_topic_notify";
+const ROOM_PASSES_KEY = "witchat_room_passes";
+
+function describeModeration(notice: ModerationNotice): string {
+  const who = notice.target ?? "Someone";
+  const why = notice.reason ? ` (${notice.reason})` : "";
+  switch (notice.action) {
+    case "kick": return `${who} was removed by a moderator${why}`;
+    case "mute": return `${who} was muted for ${notice.minutes}m${why}`;
+    case "ban": return `${who} was banned${notice.minutes ? ` for ${notice.minutes}m` : ""}${why}`;
+    case "unban": return `${who} was unbanned`;
+    case "clear": return "A moderator cleared the stream";
+    case "lock": return "A moderator locked the room";
+    case "unlock": return "A moderator unlocked the room";
+    case "links": return `A moderator ${describeLinkMode(notice.linkMode ?? null)}`;
+  }
+}
+
+function describeLinkMode(mode: LinkMode | null): string {
+  switch (mode) {
+    case "block": return "turned off links";
+    case "allowlist": return "allowed links to trusted sites only";
+    case "inert": return "allowed links, shown as plain text";
+    case null: return "reset links to the default";
+  }
+}
+
+function describeSpam(flag: SpamFlag): string {
+  const who = flag.handle ?? flag.color;
+  switch (flag.action) {
+    case "drop": return `Dropping spam from ${who}`;
+    case "throttle": return `${who} is throttled for spam`;
+    case "shadow-mute": return `${who} is shadow-muted for spam`;
+  }
+}
+
+function describeStrikeStep(step: StrikeStep): string {
+  if (step.action === "warn") return "a warning";
+  const length = !step.minutes ? "permanent" : step.minutes % 60 === 0 ? `${step.minutes / 60}h` : `${step.minutes}m`;
+  return `a ${length} ${step.action}`;
+}
+
+// "Strike 2. Next time: a 24h ban." - empty for moderator actions, which carry no strike info
+function describeStrike(payload: Partial<StrikeInfo>): string {
+  if (!payload.strikes) return "";
+  return ` Strike ${payload.strikes}.${payload.next ? ` Next time: ${describeStrikeStep(payload.next)}.` : ""}`;
+}
 
 function getOrCreateClientId(): string {
   if (typeof window === "undefined") return "";
@@ -28,13 +92,6 @@ function getOrCreateClientId(): string {
   }
 }
 
-export type Identity = {
-  color: string;
-  handle: string | null;
-  tag: string | null;
-  sigil: string | null;
-};
-
 function loadIdentity(): Identity | null {
   if (typeof window === "undefined") return null;
   try {
@@ -54,6 +111,24 @@ function loadIdentity(): Identity | null {
   }
 }
 
+// Passes into secret rooms, roomId -> signed token from the server (room-pass)
+function loadRoomPasses(): Record<string, string> {
+  if (typeof window === "undefined") return {};
+  try {
+    const raw = localStorage.getItem(ROOM_PASSES_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveRoomPass(roomId: string, pass: string) {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(ROOM_PASSES_KEY, JSON.stringify({ ...loadRoomPasses(), [roomId]: pass }));
+  } catch (_) {}
+}
+
 function saveIdentity(payload: Identity) {
   if (typeof window === "undefined") return;
   try {
@@ -93,6 +168,12 @@ function saveStream(messages: StoredMessage[]) {
   } catch (_) {}
 }
 
+// A room listened to from the one you're in: unread counts messages since you started listening or last went in
+export type ListenedRoom = ListeningRoom & {
+  unread: number;
+  pulsedAt: number | null; // Last message, for the pulse
+};
+
 export type CopyNotification = {
   id: number;
   color: string;
@@ -101,57 +182,13 @@ export type CopyNotification = {
 
 export type ActivityLogEntry = {
   id: number;
-  type: "join" | "leave" | "reveal" | "presence" | "copy" | "summon" | "banned" | "rejected";
+  type: "join" | "leave" | "reveal" | "presence" | "copy" | "summon" | "banned" | "rejected" | "moderation" | "notice";
   color?: string;
   handle?: string | null;
   message: string;
   ts: number;
 };
 
-export type PresenceGhost = {
-  color: string;
-  handle: string | null;
-  fade: number; // 0-1, how faded
-};
-
-export type AttentionState = {
-  id?: string; // Socket ID for unique identification (Issue #3)
-  color: string;
-  handle: string | null;
-  focused: boolean;
-  steppingAway?: boolean;
-};
-
-export type RoomInfo = {
-  id: string;
-  title: string;
-  secret: boolean;
-};
-
-export type RoomListItem = {
-  id: string;
-  title: string;
-  presence: number;
-  lastActivity: number;
-};
-
-export type CrosstalkParticipant = {
-  color: string;
-  handle: string | null;
-};
-
-export type DMMessage = {
-  id: string;
-  text: string;
-  color: string;
-  handle: string | null;
-  sigil: string | null;
-  targetColor: string;
-  targetSocketId?: string; // Socket ID for unique DM targeting
-  targetHandle: string | null;
-  ts: number;
-};
-
 const MAX_ACTIVITY_LOG = 10;
 
 type SocketContextValue = {
@@ -160,6 +197,7 @@ type SocketContextValue = {
   identity: Identity | null;
   copyNotifications: CopyNotification[];
   presence: number;
+  listeners: number; // Following this room from another one
   someoneTyping: { color: string; handle: string | null } | null;
   roomTitle: string;
   activityLog: ActivityLogEntry[];
@@ -172,6 +210,18 @@ type SocketContextValue = {
   // Room management
   currentRoom: RoomInfo | null;
   roomList: RoomListItem[];
+  switchRoom: (roomId: string, credentials?: RoomCredentials) => void; // Sends any stored pass along
+  accessPrompt: { roomId: string; reason: string } | null; // A secret room asked for its passphrase
+  dismissAccessPrompt: () => void;
+  isKeeper: boolean; // You keep the current room (rename, describe, secrecy, hours, hand off, delete)
+  roomClosingAt: number | null; // The current room's schedule closes it soon; everyone moves to the well then
+  listening: ListenedRoom[]; // Rooms followed besides the current one
+  listenRoom: (roomId: string) => void; // Sends any stored pass along
+  unlistenRoom: (roomId: string) => void;
+  branchRoom: (title: string) => void; // Branch the room you're in; you move into the branch
+  branchInvite: BranchInvite | null; // Someone branched a tangent you were part of
+  followBranch: () => void;
+  dismissBranchInvite: () => void;
   // DMs (Crosstalk)
   activeCrosstalk: CrosstalkParticipant[] | null; // Who's DMing in the room
   dmMessages: DMMessage[]; // DMs for current user
@@ -185,6 +235,7 @@ type SocketContextValue = {
   topicNotifyEnabled: boolean;
   setTopicNotifyEnabled: (enabled: boolean) => Promise<boolean>;
   topicToasts: Array<{ id: number; text: string; handle: string | null; topic: string }>;
+  isModerator: boolean;
 };
 
 const SocketContext = createContext<SocketContextValue>({
@@ -193,6 +244,7 @@ const SocketContext = createContext<SocketContextValue>({
   identity: null,
   copyNotifications: [],
   presence: 0,
+  listeners: 0,
   someoneTyping: null,
   roomTitle: "the well",
   activityLog: [],
@@ -204,6 +256,18 @@ const SocketContext = createContext<SocketContextValue>({
   affirmations: new Map(),
   currentRoom: null,
   roomList: [],
+  switchRoom: () => {},
+  accessPrompt: null,
+  dismissAccessPrompt: () => {},
+  isKeeper: false,
+  roomClosingAt: null,
+  listening: [],
+  listenRoom: () => {},
+  unlistenRoom: () => {},
+  branchRoom: () => {},
+  branchInvite: null,
+  followBranch: () => {},
+  dismissBranchInvite: () => {},
   activeCrosstalk: null,
   dmMessages: [],
   dmTyping: null,
@@ -215,18 +279,28 @@ const SocketContext = createContext<SocketContextValue>({
   topicNotifyEnabled: false,
   setTopicNotifyEnabled: async () => false,
   topicToasts: [],
+  isModerator: false,
 });
 
 const COPY_NOTIFICATION_MS = 5000;
 
 const SUMMON_DURATION_MS = 5000;
 
-export function SocketProvider({ children }: { children: React.ReactNode }) {
+const BRANCH_INVITE_MS = 60000; // How long an invite to follow a branch stays up
+
+// Where a room lives in the app: the well at /, every other room at /r/<roomId>
+function roomPath(roomId: string): string {
+  return roomId === "main" ? "/" : `/r/${encodeURIComponent(roomId)}`;
+}
+
+// roomId: the room a /r/[roomId] page opens on; without it, the legacy ?room= link or the well
+export function SocketProvider({ children, roomId: linkedRoomId }: { children: React.ReactNode; roomId?: string }) {
   const [connected, setConnected] = useState(false);
   const [mood, setMood] = useState<Mood>("neutral");
   const [identity, setIdentity] = useState<Identity | null>(null);
   const [copyNotifications, setCopyNotifications] = useState<CopyNotification[]>([]);
   const [presence, setPresence] = useState(0);
+  const [listeners, setListeners] = useState(0);
   const [someoneTyping, setSomeoneTyping] = useState<{ color: string; handle: string | null } | null>(null);
   const [roomTitle, setRoomTitle] = useState("the well");
   const [activityLog, setActivityLog] = useState<ActivityLogEntry[]>([]);
@@ -238,9 +312,15 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
   const [affirmations, setAffirmations] = useState<Map<string, string[]>>(new Map());
   const [currentRoom, setCurrentRoom] = useState<RoomInfo | null>(null);
   const [roomList, setRoomList] = useState<RoomListItem[]>([]);
+  const [accessPrompt, setAccessPrompt] = useState<{ roomId: string; reason: string } | null>(null);
+  const [isKeeper, setIsKeeper] = useState(false);
+  const [roomClosingAt, setRoomClosingAt] = useState<number | null>(null);
+  const [listening, setListening] = useState<ListenedRoom[]>([]);
+  const [branchInvite, setBranchInvite] = useState<BranchInvite | null>(null);
   const [activeCrosstalk, setActiveCrosstalk] = useState<CrosstalkParticipant[] | null>(null);
   const [dmMessages, setDmMessages] = useState<DMMessage[]>([]);
   const [dmTyping, setDmTyping] = useState<{ color: string; handle: string | null } | null>(null);
+  const [isModerator, setIsModerator] = useState(false);
   const [topicSubscriptions, setTopicSubscriptions] = useState<string[]>(() => {
     if (typeof window === "undefined") return [];
     try {
@@ -263,17 +343,23 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
   const topicSoundEnabledRef = useRef(topicSoundEnabled);
   const topicNotifyEnabledRef = useRef(topicNotifyEnabled);
   const identityRef = useRef(identity);
+  const currentRoomRef = useRef(currentRoom);
+  const listeningRef = useRef(listening);
+  const relistenRef = useRef<string[]>([]); // Rooms to listen to again once a reconnect has joined
   const dmTypingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const crosstalkTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null); // Issue #4: Track crosstalk timer
   const prevPresenceRef = useRef<number>(0);
   const socketRef = useRef<ReturnType<typeof connectSocket> | null>(null);
   const clearStreamOnJoinRef = useRef(false);
+  const entryRef = useRef<{ roomId: string | null; invite: string | null }>({ roomId: null, invite: null }); // Room to join on connect: the link we arrived through, then wherever we are
   const addMessage = useStreamStore((s) => s.addMessage);
   const setStream = useStreamStore((s) => s.setStream);
   const clearStream = useStreamStore((s) => s.clearStream);
   const updateHandleForColor = useStreamStore((s) => s.updateHandleForColor);
   const updateTagForColor = useStreamStore((s) => s.updateTagForColor);
   const updateSigilForColor = useStreamStore((s) => s.updateSigilForColor);
+  const setHidden = useStreamStore((s) => s.setHidden);
+  const setMaxVisible = useStreamStore((s) => s.setMaxVisible);
   const { playMessageSound, playJoinSound, playLeaveSound, playSummonSound, playTopicSound } = useSound();
 
   const addActivityLog = (type: ActivityLogEntry["type"], message: string, color?: string, handle?: string | null) => {
@@ -344,6 +430,16 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
     if (typeof window !== "undefined" && process.env.NODE_ENV === "development") {
       console.log("[Witch@] App at", window.location.origin);
     }
+    // Arriving through a link (/r/<room>?invite=..., or the older ?room=...&invite=...): join that room.
+    // The invite is spent once; a pass takes over
+    const params = new URLSearchParams(window.location.search);
+    entryRef.current = { roomId: linkedRoomId ?? params.get("room"), invite: params.get("invite") };
+    if (params.has("invite")) {
+      params.delete("invite");
+      const query = params.toString();
+      window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}`);
+    }
+
     const sock = connectSocket();
     socketRef.current = sock;
 
@@ -360,17 +456,24 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
       const sigil = saved?.sigil ?? null;
       const clientId = getOrCreateClientId();
       if (clearStreamOnJoinRef.current) clearStreamOnJoinRef.current = false;
-      sock.emit("join", { color, handle, tag, sigil, clientId });
+      const { roomId, invite } = entryRef.current;
+      const entry = roomId ? { roomId, invite: invite ?? undefined, pass: loadRoomPasses()[roomId] } : {};
+      sock.emit("join", { color, handle, tag, sigil, clientId, ...entry });
+      sock.emit("list-rooms"); // Fresh directory; room-list-update keeps it current from here
+      relistenRef.current = listeningRef.current.map((room) => room.id);
+    });
+    sock.on("disconnect", () => {
+      setConnected(false);
+      setIsModerator(false); // Moderators sign in again with /mod after reconnecting
     });
-    sock.on("disconnect", () => setConnected(false));
     sock.on("connect_error", (err) => {
       console.error("[Witch@] Socket connection failed:", err.message);
     });
-    sock.on("identity", (payload: Identity) => {
+    sock.on("identity", (payload) => {
       setIdentity(payload);
       saveIdentity(payload);
     });
-    sock.on("presence", (count: number) => {
+    sock.on("presence", (count) => {
       const prev = prevPresenceRef.current;
       if (count > prev && prev > 0) {
         addActivityLog("join", "Someone entered the stream");
@@ -382,14 +485,18 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
       prevPresenceRef.current = count;
       setPresence(count);
     });
-    sock.on("room-title", (title: string) => setRoomTitle(title || "the well"));
-    sock.on("typing", (payload: { color: string; handle: string | null }) => {
+    sock.on("listeners", (count) => setListeners(count));
+    sock.on("room-title", (title) => {
+      setRoomTitle(title || "the well");
+      setCurrentRoom((prev) => (prev && title ? { ...prev, title } : prev));
+    });
+    sock.on("typing", (payload) => {
       setSomeoneTyping(payload);
       if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
       typingTimeoutRef.current = setTimeout(() => setSomeoneTyping(null), 3000);
     });
     sock.on("typing-stop", () => setSomeoneTyping(null));
-    sock.on("stream", (messages: Parameters<typeof setStream>[0]) => {
+    sock.on("stream", (messages) => {
       const list = Array.isArray(messages) ? messages : [];
       setStream(list);
       // Soft refresh: restore stream from sessionStorage (hard refresh / ?clear=1 already cleared it)
@@ -401,7 +508,7 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
         }
       }
     });
-    sock.on("ghosts", (messages: Parameters<typeof setStream>[0]) => {
+    sock.on("ghosts", (messages) => {
       // Ghost messages: blurred remnants of conversation you weren't present for
       const list = Array.isArray(messages) ? messages : [];
       if (list.length > 0) {
@@ -417,8 +524,8 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
         }
       }
     });
-    sock.on("mood", (m: Mood) => setMood(m));
-    sock.on("message", (msg: Parameters<typeof addMessage>[0]) => {
+    sock.on("mood", (m) => setMood(m));
+    sock.on("message", (msg) => {
       addMessage(msg);
       playMessageSound();
 
@@ -458,14 +565,14 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
         }
       }
     });
-    sock.on("identity-revealed", (payload: { color: string; handle: string | null; tag?: string | null; sigil?: string | null }) => {
+    sock.on("identity-revealed", (payload) => {
       updateHandleForColor(payload.color, payload.handle);
       updateTagForColor(payload.color, payload.tag ?? null);
       updateSigilForColor(payload.color, payload.sigil ?? null);
       const name = payload.handle || "Someone";
       addActivityLog("reveal", `${name} updated their identity`, payload.color, payload.handle);
     });
-    sock.on("copy", (payload: { color: string; handle: string | null }) => {
+    sock.on("copy", (payload) => {
       const id = Date.now();
       setCopyNotifications((prev) => [...prev, { id, color: payload.color, handle: payload.handle }]);
       setTimeout(() => {
@@ -474,20 +581,23 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
       const name = payload.handle || "Someone";
       addActivityLog("copy", `${name} took a note`, payload.color, payload.handle);
     });
-    sock.on("rate-limited", (payload: { event: string; reason: string }) => {
+    sock.on("rate-limited", (payload) => {
       console.warn("[Witch@] Rate limited:", payload.event, payload.reason);
     });
+    sock.on("invalid-payload", (payload) => {
+      console.warn("[Witch@] Invalid payload:", payload.event, payload.reason);
+    });
     sock.on("server-shutdown", () => {
       console.warn("[Witch@] Server is shutting down");
     });
 
     // Presence Ghosts: faint traces of who was recently here
-    sock.on("presence-ghosts", (ghosts: PresenceGhost[]) => {
+    sock.on("presence-ghosts", (ghosts) => {
       setPresenceGhosts(Array.isArray(ghosts) ? ghosts : []);
     });
 
     // Message Resonance: track copy counts per message
-    sock.on("resonance", (payload: { messageId: string; count: number }) => {
+    sock.on("resonance", (payload) => {
       setResonance((prev) => {
         const next = new Map(prev);
         next.set(payload.messageId, payload.count);
@@ -496,7 +606,7 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
     });
 
     // Summoning: being gently pinged back
-    sock.on("summoned", (payload: { byColor: string; byHandle: string | null }) => {
+    sock.on("summoned", (payload) => {
       setSummoned(payload);
       playSummonSound();
       const name = payload.byHandle || "Someone";
@@ -504,26 +614,45 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
       setTimeout(() => setSummoned(null), SUMMON_DURATION_MS);
     });
 
+    // Branches: a tangent you were part of moved to its own room
+    sock.on("branch-invite", (invite) => {
+      setBranchInvite(invite);
+      playSummonSound();
+      addActivityLog("presence", `${invite.from.handle || "Someone"} branched off to ${invite.title}`, invite.from.color, invite.from.handle);
+      setTimeout(() => setBranchInvite((prev) => (prev === invite ? null : prev)), BRANCH_INVITE_MS);
+    });
+
+    sock.on("branch-failed", (payload) => {
+      addActivityLog("rejected", `Couldn't branch: ${payload.reason}`);
+    });
+
     // Moderation events
-    sock.on("message-rejected", (payload: { reason: string }) => {
+    sock.on("message-rejected", (payload) => {
       addActivityLog("rejected", payload.reason);
     });
 
-    sock.on("banned", (payload: { reason: string }) => {
-      addActivityLog("banned", `You have been banned: ${payload.reason}`);
+    sock.on("banned", (payload) => {
+      const until = payload.expiresAt
+        ? ` (until ${new Date(payload.expiresAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })})`
+        : "";
+      addActivityLog("banned", `You have been banned: ${payload.reason}${until}${describeStrike(payload)}`);
+    });
+
+    sock.on("warned", (payload) => {
+      addActivityLog("rejected", `Warning: ${payload.reason}${describeStrike(payload)}`);
     });
 
-    sock.on("user-banned", (payload: { color: string; handle: string; reason: string }) => {
+    sock.on("user-banned", (payload) => {
       addActivityLog("banned", `${payload.handle} was banned for ${payload.reason}`, payload.color, payload.handle);
     });
 
     // Comfortable silence
-    sock.on("silence", (payload: { settled: boolean }) => {
+    sock.on("silence", (payload) => {
       setSilenceSettled(payload.settled);
     });
 
     // Arrival vibe - instant room read on join
-    sock.on("arrival-vibe", (payload: { presence: number; mood: string; quietFor: string | null; hasGhosts: boolean }) => {
+    sock.on("arrival-vibe", (payload) => {
       let vibe = `${payload.presence} here`;
       if (payload.mood !== "neutral") vibe += `, ${payload.mood}`;
       if (payload.quietFor) vibe += `, quiet for ${payload.quietFor}`;
@@ -532,7 +661,7 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
     });
 
     // Attention state - who's focused vs away
-    sock.on("attention", (state: AttentionState[]) => {
+    sock.on("attention", (state) => {
       setAttention(Array.isArray(state) ? state : []);
     });
 
@@ -547,18 +676,18 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
     document.addEventListener("visibilitychange", handleVisibility);
 
     // Deliberate departure events
-    sock.on("user-away", (payload: { color: string; handle: string | null }) => {
+    sock.on("user-away", (payload) => {
       const name = payload.handle || "Someone";
       addActivityLog("leave", `${name} is stepping away`, payload.color, payload.handle);
     });
 
-    sock.on("user-back", (payload: { color: string; handle: string | null }) => {
+    sock.on("user-back", (payload) => {
       const name = payload.handle || "Someone";
       addActivityLog("join", `${name} returned`, payload.color, payload.handle);
     });
 
     // Affirmations - silent pulses on messages
-    sock.on("affirmation", (payload: { messageId: string; color: string }) => {
+    sock.on("affirmation", (payload) => {
       setAffirmations((prev) => {
         const next = new Map(prev);
         const existing = next.get(payload.messageId) || [];
@@ -582,44 +711,144 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
     });
 
     // Room management events
-    sock.on("room-joined", (payload: RoomInfo) => {
-      setCurrentRoom(payload);
+    sock.on("room-joined", (payload) => {
+      setCurrentRoom({
+        id: payload.id,
+        title: payload.title,
+        description: payload.description ?? null,
+        secret: payload.secret,
+        locked: payload.locked,
+        hasPassphrase: payload.hasPassphrase,
+        pinned: payload.pinned,
+        settings: payload.settings,
+        schedule: payload.schedule ?? null,
+        opening: payload.opening,
+      });
+      // The stream keeps as many messages as this room shows, clear and fading
+      if (payload.settings) setMaxVisible(payload.settings.visibleMessages + payload.settings.fadedMessages);
+      setIsKeeper(!!payload.keeper);
+      setRoomClosingAt(null);
+      // A reconnect rejoins the room we're in (and the address bar shows), not the one we arrived in
+      entryRef.current = { roomId: payload.id, invite: null };
+      setAccessPrompt((prev) => (prev?.roomId === payload.id ? null : prev));
+      setBranchInvite((prev) => (prev?.roomId === payload.id ? null : prev));
+      // The address bar follows the room, so it can be copied and shared; replaced rather than pushed,
+      // as Back would otherwise re-render the page under a live connection
+      if (window.location.pathname !== roomPath(payload.id)) window.history.replaceState(null, "", roomPath(payload.id));
+      // A reconnect drops listening; pick it back up now the server knows who we are
+      const passes = loadRoomPasses();
+      for (const roomId of relistenRef.current.splice(0)) {
+        if (roomId !== payload.id) sock.emit("listen-room", { roomId, ...(passes[roomId] ? { pass: passes[roomId] } : {}) });
+      }
+      // Resumed session (quick reconnect): same room, keep DMs and crosstalk
+      if (payload.resumed) return;
       // Clear stream when switching rooms
       clearStream();
       setDmMessages([]);
       setActiveCrosstalk(null);
     });
 
-    sock.on("room-list", (list: RoomListItem[]) => {
+    sock.on("room-list", (list) => {
       setRoomList(Array.isArray(list) ? list : []);
     });
 
-    sock.on("room-created", (payload: { roomId: string; title: string; secret: boolean }) => {
+    sock.on("room-list-update", ({ rooms, removed }) => {
+      setRoomList((prev) => {
+        const changed = new Map(rooms.map((room) => [room.id, room]));
+        const kept = prev
+          .filter((room) => !removed.includes(room.id))
+          .map((room) => changed.get(room.id) || room);
+        const added = rooms.filter((room) => !prev.some((r) => r.id === room.id));
+        return [...kept, ...added];
+      });
+    });
+
+    sock.on("room-created", (payload) => {
       addActivityLog("presence", `Created room: ${payload.title}`);
     });
 
-    sock.on("room-create-failed", (payload: { reason: string }) => {
+    sock.on("room-create-failed", (payload) => {
       addActivityLog("rejected", `Failed to create room: ${payload.reason}`);
     });
 
-    sock.on("room-switch-failed", (payload: { reason: string }) => {
+    sock.on("room-switch-failed", (payload) => {
       addActivityLog("rejected", `Failed to switch room: ${payload.reason}`);
+      if (payload.needsPassphrase && payload.roomId) setAccessPrompt({ roomId: payload.roomId, reason: payload.reason });
+    });
+
+    sock.on("room-info", (info) => {
+      // opening is left out once a room has no schedule, so it's replaced rather than merged
+      setCurrentRoom((prev) => (prev && prev.id === info.id ? { ...prev, ...info, opening: info.opening } : prev));
+      if (info.settings && currentRoomRef.current?.id === info.id) {
+        setMaxVisible(info.settings.visibleMessages + info.settings.fadedMessages);
+      }
+    });
+
+    sock.on("keeper-status", (payload) => {
+      const room = currentRoomRef.current;
+      if (!room || room.id !== payload.roomId) return;
+      setIsKeeper(payload.keeper);
+      addActivityLog("presence", payload.keeper ? `You now keep ${room.title}` : `You handed off ${room.title}`);
+    });
+
+    sock.on("room-closing", (payload) => {
+      const room = currentRoomRef.current;
+      if (!room || room.id !== payload.roomId) return;
+      setRoomClosingAt(payload.closesAt);
+      const minutes = Math.max(1, Math.round((payload.closesAt - Date.now()) / 60000));
+      addActivityLog("notice", `${room.title} closes in ${minutes}m; everyone here moves to the well`);
+    });
+
+    sock.on("room-update-failed", (payload) => {
+      addActivityLog("rejected", `Failed to change room: ${payload.reason}`);
     });
 
-    sock.on("room-deleted", (payload: { roomId: string }) => {
+    sock.on("room-pass", (payload) => {
+      saveRoomPass(payload.roomId, payload.pass);
+    });
+
+    // The server's list is the truth; unread counts carry over for rooms still on it
+    sock.on("listening", (list) => {
+      setListening((prev) =>
+        list.map((room) => {
+          const known = prev.find((r) => r.id === room.id);
+          return { ...room, unread: known?.unread ?? 0, pulsedAt: known?.pulsedAt ?? null };
+        })
+      );
+    });
+
+    sock.on("listen-failed", (payload) => {
+      addActivityLog("rejected", `Couldn't listen${payload.roomId ? ` to ${payload.roomId}` : ""}: ${payload.reason}`);
+    });
+
+    sock.on("room-pulse", (pulse) => {
+      setListening((prev) =>
+        prev.map((room) =>
+          room.id === pulse.roomId
+            ? { ...room, mood: pulse.mood, unread: room.unread + (pulse.message ? 1 : 0), pulsedAt: pulse.message ? Date.now() : room.pulsedAt }
+            : room
+        )
+      );
+    });
+
+    sock.on("invite-failed", (payload) => {
+      addActivityLog("rejected", `Failed to create invite: ${payload.reason}`);
+    });
+
+    sock.on("room-deleted", (payload) => {
       addActivityLog("presence", `Room deleted: ${payload.roomId}`);
     });
 
-    sock.on("room-delete-failed", (payload: { reason: string }) => {
+    sock.on("room-delete-failed", (payload) => {
       addActivityLog("rejected", `Failed to delete room: ${payload.reason}`);
     });
 
     // DM (Crosstalk) events
-    sock.on("dm-received", (msg: DMMessage) => {
+    sock.on("dm-received", (msg) => {
       setDmMessages((prev) => [...prev.slice(-49), msg]); // Keep last 50 DMs
     });
 
-    sock.on("crosstalk", (payload: { participants: CrosstalkParticipant[]; ts: number }) => {
+    sock.on("crosstalk", (payload) => {
       setActiveCrosstalk(payload.participants);
       // Clear previous timer before setting new one to prevent leaks
       if (crosstalkTimeoutRef.current) clearTimeout(crosstalkTimeoutRef.current);
@@ -635,16 +864,71 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
       setActiveCrosstalk(null);
     });
 
-    sock.on("dm-typing", (payload: { color: string; handle: string | null }) => {
+    sock.on("dm-typing", (payload) => {
       setDmTyping(payload);
       if (dmTypingTimeoutRef.current) clearTimeout(dmTypingTimeoutRef.current);
       dmTypingTimeoutRef.current = setTimeout(() => setDmTyping(null), 3000);
     });
 
-    sock.on("dm-failed", (payload: { reason: string }) => {
+    sock.on("dm-failed", (payload) => {
       addActivityLog("rejected", `DM failed: ${payload.reason}`);
     });
 
+    // Moderation
+    sock.on("mod-status", (payload) => {
+      setIsModerator(payload.moderator);
+    });
+
+    sock.on("mod-failed", (payload) => {
+      addActivityLog("rejected", `Moderation (${payload.action}) failed: ${payload.reason}`);
+    });
+
+    sock.on("moderation-notice", (notice) => {
+      addActivityLog("moderation", describeModeration(notice));
+    });
+
+    sock.on("kicked", (payload) => {
+      addActivityLog("banned", `You were removed: ${payload.reason}`);
+    });
+
+    sock.on("muted", (payload) => {
+      const until = new Date(payload.until).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+      addActivityLog("rejected", `You are muted until ${until}: ${payload.reason}${describeStrike(payload)}`);
+    });
+
+    sock.on("stream-cleared", () => {
+      clearStream();
+    });
+
+    sock.on("room-locked", (payload) => {
+      setCurrentRoom((prev) => (prev ? { ...prev, locked: payload.locked } : prev));
+    });
+
+    sock.on("system-notice", (notice) => {
+      addActivityLog("notice", notice.text);
+    });
+
+    sock.on("report-received", () => {
+      addActivityLog("notice", "Report sent. Thank you for looking out.");
+    });
+
+    sock.on("report-failed", (payload) => {
+      addActivityLog("rejected", payload.reason);
+    });
+
+    sock.on("message-hidden", ({ messageId }) => {
+      setHidden(messageId, true);
+    });
+
+    sock.on("message-restored", ({ messageId }) => {
+      setHidden(messageId, false);
+    });
+
+    // Moderators only: the spam scorer started dropping, throttling or shadow-muting someone
+    sock.on("spam-flagged", (flag) => {
+      addActivityLog("moderation", `${describeSpam(flag)} (score ${flag.score}: ${flag.signals.join(", ") || "earlier messages"})`, flag.color, flag.handle);
+    });
+
     return () => {
       if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
       if (dmTypingTimeoutRef.current) clearTimeout(dmTypingTimeoutRef.current);
@@ -653,6 +937,7 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
       sock.off("disconnect");
       sock.off("identity");
       sock.off("presence");
+      sock.off("listeners");
       sock.off("room-title");
       sock.off("typing");
       sock.off("typing-stop");
@@ -663,12 +948,16 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
       sock.off("identity-revealed");
       sock.off("copy");
       sock.off("rate-limited");
+      sock.off("invalid-payload");
       sock.off("server-shutdown");
       sock.off("presence-ghosts");
       sock.off("resonance");
       sock.off("summoned");
+      sock.off("branch-invite");
+      sock.off("branch-failed");
       sock.off("message-rejected");
       sock.off("banned");
+      sock.off("warned");
       sock.off("user-banned");
       sock.off("silence");
       sock.off("arrival-vibe");
@@ -678,9 +967,19 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
       sock.off("user-back");
       sock.off("room-joined");
       sock.off("room-list");
+      sock.off("room-list-update");
       sock.off("room-created");
       sock.off("room-create-failed");
       sock.off("room-switch-failed");
+      sock.off("room-pass");
+      sock.off("listening");
+      sock.off("listen-failed");
+      sock.off("room-pulse");
+      sock.off("room-info");
+      sock.off("keeper-status");
+      sock.off("room-closing");
+      sock.off("room-update-failed");
+      sock.off("invite-failed");
       sock.off("room-deleted");
       sock.off("room-delete-failed");
       sock.off("dm-received");
@@ -688,9 +987,22 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
       sock.off("crosstalk-ended");
       sock.off("dm-typing");
       sock.off("dm-failed");
+      sock.off("mod-status");
+      sock.off("mod-failed");
+      sock.off("moderation-notice");
+      sock.off("kicked");
+      sock.off("muted");
+      sock.off("stream-cleared");
+      sock.off("room-locked");
+      sock.off("system-notice");
+      sock.off("spam-flagged");
+      sock.off("report-received");
+      sock.off("report-failed");
+      sock.off("message-hidden");
+      sock.off("message-restored");
       document.removeEventListener("visibilitychange", handleVisibility);
     };
-  }, [addMessage, setStream, clearStream, updateHandleForColor, updateTagForColor, updateSigilForColor, playJoinSound, playLeaveSound, playSummonSound, playTopicSound]);
+  }, [addMessage, setStream, clearStream, updateHandleForColor, updateTagForColor, updateSigilForColor, setHidden, setMaxVisible, playJoinSound, playLeaveSound, playSummonSound, playTopicSound, linkedRoomId]);
 
   // Apply mood to document body for Context Engine (atmosphere)
   useEffect(() => {
@@ -709,6 +1021,35 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
   useEffect(() => { topicSoundEnabledRef.current = topicSoundEnabled; }, [topicSoundEnabled]);
   useEffect(() => { topicNotifyEnabledRef.current = topicNotifyEnabled; }, [topicNotifyEnabled]);
   useEffect(() => { identityRef.current = identity; }, [identity]);
+  useEffect(() => { currentRoomRef.current = currentRoom; }, [currentRoom]);
+  useEffect(() => { listeningRef.current = listening; }, [listening]);
+
+  const switchRoom = (roomId: string, credentials: RoomCredentials = {}) => {
+    const pass = loadRoomPasses()[roomId];
+    socketRef.current?.emit("switch-room", { roomId, ...(pass ? { pass } : {}), ...credentials });
+  };
+
+  const dismissAccessPrompt = () => setAccessPrompt(null);
+
+  const listenRoom = (roomId: string) => {
+    const pass = loadRoomPasses()[roomId];
+    socketRef.current?.emit("listen-room", { roomId, ...(pass ? { pass } : {}) });
+  };
+
+  const unlistenRoom = (roomId: string) => {
+    socketRef.current?.emit("unlisten-room", { roomId });
+  };
+
+  const branchRoom = (title: string) => {
+    socketRef.current?.emit("branch-room", { title });
+  };
+
+  const followBranch = () => {
+    if (!branchInvite) return;
+    switchRoom(branchInvite.roomId, branchInvite.invite ? { invite: branchInvite.invite } : {});
+  };
+
+  const dismissBranchInvite = () => setBranchInvite(null);
 
   // Topic subscription helpers
   const subscribeTopic = (topic: string) => {
@@ -751,7 +1092,7 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
   };
 
   return (
-    <SocketContext.Provider value={{ connected, mood, identity, copyNotifications, presence, someoneTyping, roomTitle, activityLog, presenceGhosts, summoned, resonance, silenceSettled, attention, affirmations, currentRoom, roomList, activeCrosstalk, dmMessages, dmTyping, topicSubscriptions, subscribeTopic, unsubscribeTopic, topicSoundEnabled, setTopicSoundEnabled, topicNotifyEnabled, setTopicNotifyEnabled, topicToasts }}>
+    <SocketContext.Provider value={{ connected, mood, identity, copyNotifications, presence, listeners, someoneTyping, roomTitle, activityLog, presenceGhosts, summoned, resonance, silenceSettled, attention, affirmations, currentRoom, roomList, switchRoom, accessPrompt, dismissAccessPrompt, isKeeper, roomClosingAt, listening, listenRoom, unlistenRoom, branchRoom, branchInvite, followBranch, dismissBranchInvite, activeCrosstalk, dmMessages, dmTyping, topicSubscriptions, subscribeTopic, unsubscribeTopic, topicSoundEnabled, setTopicSoundEnabled, topicNotifyEnabled, setTopicNotifyEnabled, topicToasts, isModerator }}>
       {children}
     </SocketContext.Provider>
   );
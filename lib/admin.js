@@ -0,0 +1,167 @@
+/**
+ * Witch@ Admin HTTP API
+ *
+ * - JSON routes under /admin for operators, mounted on the socket server's HTTP server
+ * - Bearer token auth against ADMIN_TOKEN; with no token configured, or a wrong one, the API does not exist (404)
+ * - Routing, auth and body parsing only; route handlers are supplied by the socket server
+ */
+
+const crypto = require('crypto');
+const { validateAdminBody } = require('./validation');
+
+const ADMIN_PREFIX = '/admin';
+const MAX_BODY_BYTES = 16 * 1024;
+
+/** @typedef {{ status: number, body: unknown }} AdminResult */
+
+// Handler results
+/**
+ * @param {unknown} [body]
+ * @param {number} [status]
+ * @returns {AdminResult}
+ */
+const ok = (body = { ok: true }, status = 200) => ({ status, body });
+/**
+ * @param {number} status
+ * @param {string} reason
+ * @returns {AdminResult}
+ */
+const fail = (status, reason) => ({ status, body: { reason } });
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+// Compare digests so neither the token nor its length leaks through timing
+function checkToken(token, header) {
+  const match = /^Bearer (.+)$/.exec(header || '');
+  if (!token || !match) return false;
+  const expected = crypto.createHash('sha256').update(token).digest();
+  const given = crypto.createHash('sha256').update(match[1]).digest();
+  return crypto.timingSafeEqual(expected, given);
+}
+
+/**
+ * Read a JSON request body
+ * @param {import('http').IncomingMessage} req
+ * @returns {Promise<unknown>} undefined for an empty body
+ */
+function readJson(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (size === 0) return resolve(undefined);
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new Error('Body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+// "DELETE /admin/rooms/:roomId" -> { method, regex, keys }
+function compileRoute(spec) {
+  const [method, path] = spec.split(' ');
+  const keys = [];
+  const pattern = path.replace(/:([a-zA-Z]+)/g, (_, key) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  return { spec, method, regex: new RegExp(`^${pattern}$`), keys };
+}
+
+/**
+ * Build the admin request handler
+ * @param {{
+ *   token: string,
+ *   routes: Record<string, (params: any, body: any, query: any) => AdminResult | Promise<AdminResult>>,
+ *   logger: { info: Function, warn: Function, error: Function },
+ * }} options
+ *   routes are keyed "METHOD /admin/path/:param"; bodies are checked against the matching admin schema;
+ *   query string parameters come third
+ * @returns {(req: import('http').IncomingMessage, res: import('http').ServerResponse) => boolean}
+ *   false when the request is not for the admin API, so the caller can fall through
+ */
+function createAdminHandler({ token, routes, logger }) {
+  const compiled = Object.keys(routes).map(compileRoute);
+
+  return (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== ADMIN_PREFIX && !url.pathname.startsWith(`${ADMIN_PREFIX}/`)) return false;
+
+    // Disabled API and bad credentials look the same from outside: nothing here
+    if (!token) {
+      sendJson(res, 404, { reason: 'Not found' });
+      return true;
+    }
+    if (!checkToken(token, req.headers.authorization)) {
+      logger.warn('Admin auth failed', { path: url.pathname });
+      sendJson(res, 404, { reason: 'Not found' });
+      return true;
+    }
+
+    let route = null;
+    let match = null;
+    let pathMatched = false;
+    for (const candidate of compiled) {
+      const m = candidate.regex.exec(url.pathname);
+      if (!m) continue;
+      pathMatched = true;
+      if (candidate.method === req.method) {
+        route = candidate;
+        match = m;
+        break;
+      }
+    }
+    if (!route) {
+      sendJson(res, pathMatched ? 405 : 404, { reason: pathMatched ? 'Method not allowed' : 'Not found' });
+      return true;
+    }
+
+    const params = {};
+    try {
+      route.keys.forEach((key, i) => {
+        params[key] = decodeURIComponent(match[i + 1]);
+      });
+    } catch {
+      sendJson(res, 400, { reason: 'Malformed path' });
+      return true;
+    }
+
+    readJson(req)
+      .then(async (body) => {
+        const validation = validateAdminBody(route.spec, body);
+        if (!validation.valid) return fail(400, validation.reason);
+        return routes[route.spec](params, body, Object.fromEntries(url.searchParams));
+      })
+      .then(({ status, body }) => {
+        logger.info('Admin request', { route: route.spec, params, status });
+        sendJson(res, status, body);
+      })
+      .catch((err) => {
+        const status = /JSON|too large/.test(err.message) ? 400 : 500;
+        logger.error('Admin request failed', { route: route.spec, error: err.message });
+        sendJson(res, status, { reason: status === 400 ? err.message : 'Internal error' });
+      });
+    return true;
+  };
+}
+
+module.exports = {
+  createAdminHandler,
+  ok,
+  fail,
+};
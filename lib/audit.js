@@ -0,0 +1,181 @@
+/**
+ * Witch@ Moderation Audit Log
+ *
+ * - Append-only JSON lines, one per moderation action, automatic or manual: who acted, on whom,
+ *   in which room, why, and when
+ * - IPs and clientIds are stored as keyed hashes (HMAC-SHA256), never in the clear, and message text is
+ *   never stored: the log can tie actions to the same person without identifying them
+ * - Rotated by size: moderation.jsonl, then moderation.1.jsonl ... moderation.<maxFiles>.jsonl, oldest dropped
+ * - Queries read the current and rotated files, filtered by time range, target, action and room
+ * - Each node writes its own log; entries carry no node-local state, so the files can be merged by time
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const FILE_BASENAME = 'moderation';
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+const MAX_QUERY_LIMIT = 1000;
+
+/**
+ * @typedef {{ ip?: string | null, clientId?: string | null, label?: string | null }} Party
+ *   someone acting or acted on; ip and clientId are hashed before they are written
+ * @typedef {{
+ *   ts: number,
+ *   action: string,
+ *   actor: { type: 'system' | 'moderator' | 'admin' | 'keeper', id: string | null, label: string | null },
+ *   target: { ip: string | null, clientId: string | null, label: string | null } | null,
+ *   roomId: string | null,
+ *   reason: string | null,
+ *   details?: Record<string, unknown>,
+ * }} AuditEntry
+ */
+
+let dir = null;
+let maxBytes = DEFAULT_MAX_BYTES;
+let maxFiles = DEFAULT_MAX_FILES;
+let salt = null;
+let logger = null;
+let writing = Promise.resolve(); // Appends and rotations run one after another, in record order
+
+const fileAt = (index) => path.join(dir, index === 0 ? `${FILE_BASENAME}.jsonl` : `${FILE_BASENAME}.${index}.jsonl`);
+
+/**
+ * Set where the log lives and how it rotates; until this succeeds nothing is recorded. Without a salt,
+ * one is generated once and kept next to the log, so hashes stay comparable across restarts
+ * @param {{ dir: string, maxBytes?: number, maxFiles?: number, salt?: string, logger: { info: Function, error: Function } }} options
+ * @throws when the directory or salt file can't be created
+ */
+async function configure(options) {
+  logger = options.logger;
+  if (options.maxBytes > 0) maxBytes = options.maxBytes;
+  if (options.maxFiles > 0) maxFiles = options.maxFiles;
+  await fs.promises.mkdir(options.dir, { recursive: true });
+
+  if (options.salt) {
+    salt = options.salt;
+  } else {
+    const saltFile = path.join(options.dir, '.salt');
+    try {
+      salt = (await fs.promises.readFile(saltFile, 'utf8')).trim();
+    } catch {
+      salt = crypto.randomBytes(32).toString('hex');
+      await fs.promises.writeFile(saltFile, salt, { mode: 0o600 });
+      logger.info('Audit salt generated', { file: saltFile });
+    }
+  }
+  dir = options.dir;
+}
+
+/**
+ * Keyed hash of an identifier, as stored in the log
+ * @param {string | null | undefined} value
+ * @returns {string | null}
+ */
+function hashId(value) {
+  if (!value || !salt) return null;
+  return crypto.createHmac('sha256', salt).update(String(value)).digest('hex').slice(0, 32);
+}
+
+function hashParty(party) {
+  if (!party) return null;
+  return { ip: hashId(party.ip), clientId: hashId(party.clientId), label: party.label || null };
+}
+
+// Shift moderation.jsonl -> .1 -> .2 ...; the oldest falls off the end
+async function rotate() {
+  await fs.promises.rm(fileAt(maxFiles), { force: true });
+  for (let i = maxFiles - 1; i >= 0; i--) {
+    await fs.promises.rename(fileAt(i), fileAt(i + 1)).catch((err) => {
+      if (err.code !== 'ENOENT') throw err;
+    });
+  }
+}
+
+async function append(line) {
+  const size = await fs.promises.stat(fileAt(0)).then((s) => s.size, () => 0);
+  if (size > 0 && size + line.length > maxBytes) await rotate();
+  await fs.promises.appendFile(fileAt(0), line);
+}
+
+/**
+ * Append an entry. Returns at once; the write is queued behind earlier ones
+ * @param {{ action: string, actor?: { type: 'system' | 'moderator' | 'admin' | 'keeper' } & Party, target?: Party | null, roomId?: string | null, reason?: string | null, details?: Record<string, unknown> }} event
+ *   actor defaults to the system; people are identified by the hash of their clientId (or IP).
+ *   details holds anything else worth keeping (minutes, strike count) - never identifiers or message text
+ * @returns {AuditEntry | null} what was written, or null when the log isn't configured
+ */
+function record({ action, actor = { type: 'system' }, target = null, roomId = null, reason = null, details }) {
+  if (!dir) return null;
+  /** @type {AuditEntry} */
+  const entry = {
+    ts: Date.now(),
+    action,
+    actor: { type: actor.type, id: hashId(actor.clientId || actor.ip), label: actor.label || null },
+    target: hashParty(target),
+    roomId,
+    reason,
+    ...(details ? { details } : {}),
+  };
+  const line = `${JSON.stringify(entry)}\n`;
+  writing = writing
+    .then(() => append(line))
+    .catch((err) => logger.error('Audit write failed', { action, error: err.message }));
+  return entry;
+}
+
+/**
+ * Entries matching every given filter, newest first
+ * @param {{ from?: number, to?: number, target?: string, action?: string, roomId?: string, limit?: number }} [filter]
+ *   target is a raw IP or clientId (hashed here to match) or a label (handle or color)
+ * @returns {Promise<AuditEntry[]>}
+ */
+async function query({ from = 0, to = Infinity, target, action, roomId, limit = 100 } = {}) {
+  if (!dir) return [];
+  await writing; // Include everything recorded so far
+  const targetHash = target ? hashId(target) : null;
+  const matches = (entry) =>
+    entry.ts >= from && entry.ts <= to &&
+    (!action || entry.action === action) &&
+    (!roomId || entry.roomId === roomId) &&
+    (!target || (entry.target !== null &&
+      (entry.target.ip === targetHash || entry.target.clientId === targetHash || entry.target.label === target)));
+
+  const cap = Math.min(Math.max(1, limit), MAX_QUERY_LIMIT);
+  const found = [];
+  // Newest file first, newest line first; stop once a whole file is older than the range
+  for (let i = 0; i <= maxFiles && found.length < cap; i++) {
+    const text = await fs.promises.readFile(fileAt(i), 'utf8').catch(() => null);
+    if (text === null) continue;
+    const lines = text.split('\n').filter(Boolean).reverse();
+    let newest = -Infinity;
+    for (const line of lines) {
+      let entry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue; // A torn line from a crash mid-write
+      }
+      newest = Math.max(newest, entry.ts);
+      if (matches(entry)) found.push(entry);
+      if (found.length >= cap) break;
+    }
+    if (newest < from) break;
+  }
+  return found;
+}
+
+// Resolve once every queued write has landed (shutdown)
+function flush() {
+  return writing;
+}
+
+module.exports = {
+  configure,
+  hashId,
+  record,
+  query,
+  flush,
+};
@@ -0,0 +1,138 @@
+/**
+ * Witch@ Ban Registry
+ *
+ * - A ban targets an IP, a clientId, or both, and records reason, moderator and timestamps
+ * - Temporary bans carry expiresAt and lapse on their own; permanent bans have expiresAt null
+ * - Stored through lib/redis (Redis with in-memory fallback); lookups hit a per-node cache
+ */
+
+const redis = require('./redis');
+
+/**
+ * @typedef {{
+ *   id: string,
+ *   ip: string | null,
+ *   clientId: string | null,
+ *   label: string | null,
+ *   reason: string,
+ *   moderator: string,
+ *   createdAt: number,
+ *   expiresAt: number | null,
+ * }} Ban
+ */
+
+/** @type {Map<string, Ban>} */
+const cache = new Map(); // banId -> ban
+
+function isActive(ban, now = Date.now()) {
+  return ban.expiresAt === null || ban.expiresAt > now;
+}
+
+/**
+ * Load persisted bans into the cache, dropping any that expired while we were down
+ * @returns {Promise<number>} number of active bans
+ */
+async function loadBans() {
+  cache.clear();
+  for (const ban of await redis.getBans()) {
+    if (isActive(ban)) cache.set(ban.id, ban);
+    else redis.deleteBan(ban.id);
+  }
+  return cache.size;
+}
+
+/**
+ * Record a ban
+ * @param {{ ip?: string | null, clientId?: string | null, label?: string | null, reason: string, moderator?: string, durationMs?: number | null }} options
+ *   label is how listings show the target (handle or color); durationMs null (default) bans permanently
+ * @returns {Ban | null} null when there is nothing to ban (no ip or clientId)
+ */
+function addBan({ ip = null, clientId = null, label = null, reason, moderator = 'system', durationMs = null }) {
+  if (!ip && !clientId) return null;
+  const now = Date.now();
+  const ban = {
+    id: `ban-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    ip,
+    clientId,
+    label,
+    reason,
+    moderator,
+    createdAt: now,
+    expiresAt: durationMs ? now + durationMs : null,
+  };
+  cache.set(ban.id, ban);
+  redis.saveBan(ban);
+  return ban;
+}
+
+/**
+ * Lift a ban by id
+ * @param {string} banId
+ * @returns {Ban | null} the lifted ban, or null if there was none
+ */
+function removeBan(banId) {
+  const ban = cache.get(banId) || null;
+  cache.delete(banId);
+  redis.deleteBan(banId);
+  return ban;
+}
+
+/**
+ * Find the active ban matching an IP or clientId
+ * @param {{ ip?: string | null, clientId?: string | null }} target
+ * @returns {Ban | null}
+ */
+function findBan({ ip = null, clientId = null }) {
+  const now = Date.now();
+  for (const ban of cache.values()) {
+    if (!isActive(ban, now)) continue;
+    if ((ip && ban.ip === ip) || (clientId && ban.clientId === clientId)) return ban;
+  }
+  return null;
+}
+
+/**
+ * Active bans, oldest first
+ * @returns {Ban[]}
+ */
+function listBans() {
+  const now = Date.now();
+  return [...cache.values()].filter((ban) => isActive(ban, now)).sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Remove expired bans from the cache and the store
+ * @returns {Ban[]} the bans that lapsed
+ */
+function pruneExpired() {
+  const now = Date.now();
+  const lapsed = [];
+  for (const ban of cache.values()) {
+    if (!isActive(ban, now)) {
+      cache.delete(ban.id);
+      redis.deleteBan(ban.id);
+      lapsed.push(ban);
+    }
+  }
+  return lapsed;
+}
+
+// Mirror a ban or unban made on another node (it already persisted the change)
+function applyRemoteBan(ban) {
+  if (isActive(ban)) cache.set(ban.id, ban);
+}
+
+function applyRemoteUnban(banId) {
+  cache.delete(banId);
+}
+
+module.exports = {
+  loadBans,
+  addBan,
+  removeBan,
+  findBan,
+  listBans,
+  pruneExpired,
+  applyRemoteBan,
+  applyRemoteUnban,
+};
@@ -0,0 +1,150 @@
+/**
+ * Witch@ Prometheus Metrics
+ *
+ * - Counters and histograms are updated inline by the socket server; gauges are sampled at scrape time
+ * - Every instance exposes its own numbers: sum connections and counters across instances,
+ *   room gauges read the same on every instance (each keeps a replica of the rooms)
+ * - Label values come from fixed sets (event names, reason categories) or public room ids,
+ *   never from user text - secret rooms are reported under "secret" so their ids don't leak
+ */
+
+const client = require('prom-client');
+
+const register = new client.Registry();
+client.collectDefaultMetrics({ register, prefix: 'witchat_' });
+
+const SECRET_ROOM_LABEL = 'secret';
+
+const messages = new client.Counter({
+  name: 'witchat_messages_total',
+  help: 'Stream messages accepted, by room',
+  labelNames: ['room'],
+  registers: [register],
+});
+
+const rateLimited = new client.Counter({
+  name: 'witchat_rate_limit_rejections_total',
+  help: 'Events rejected by the rate limiter, by rate-limit bucket and reason (rate-limited or abuse)',
+  labelNames: ['event', 'reason'],
+  registers: [register],
+});
+
+const moderationActions = new client.Counter({
+  name: 'witchat_moderation_actions_total',
+  help: 'Moderation actions, by action and cause (moderator, admin, or the automatic filter that fired)',
+  labelNames: ['action', 'reason'],
+  registers: [register],
+});
+
+const handlerDuration = new client.Histogram({
+  name: 'witchat_event_handler_duration_seconds',
+  help: 'Socket event handler latency, including awaited cross-node lookups',
+  labelNames: ['event'],
+  buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+  registers: [register],
+});
+
+/**
+ * Register scrape-time gauges over server state
+ * @param {{
+ *   connections: () => number,
+ *   rooms: () => number,
+ *   dmSessions: () => number,
+ *   moods: () => Record<string, number>,
+ * }} sources
+ *   moods maps each mood to the number of rooms currently in it
+ */
+function registerGauges({ connections, rooms, dmSessions, moods }) {
+  new client.Gauge({
+    name: 'witchat_connections',
+    help: 'Sockets connected to this instance',
+    registers: [register],
+    collect() {
+      this.set(connections());
+    },
+  });
+  new client.Gauge({
+    name: 'witchat_rooms',
+    help: 'Rooms that exist, including the main room',
+    registers: [register],
+    collect() {
+      this.set(rooms());
+    },
+  });
+  new client.Gauge({
+    name: 'witchat_dm_sessions',
+    help: 'Active crosstalk (DM) sessions held by this instance',
+    registers: [register],
+    collect() {
+      this.set(dmSessions());
+    },
+  });
+  new client.Gauge({
+    name: 'witchat_rooms_by_mood',
+    help: 'Rooms by current mood',
+    labelNames: ['mood'],
+    registers: [register],
+    collect() {
+      this.reset();
+      for (const [mood, count] of Object.entries(moods())) this.set({ mood }, count);
+    },
+  });
+}
+
+/** @param {{ id: string, secret: boolean }} room */
+function recordMessage(room) {
+  messages.inc({ room: room.secret ? SECRET_ROOM_LABEL : room.id });
+}
+
+// A deleted room's series would otherwise be exported forever. Dropped whether or not the room is
+// secret now: it may have been public, and counted under its id, before it went secret
+/** @param {string} roomId */
+function forgetRoom(roomId) {
+  if (roomId !== SECRET_ROOM_LABEL) messages.remove({ room: roomId }); // A public room named "secret" shares the secret rooms' series
+}
+
+function recordRateLimited(event, reason) {
+  rateLimited.inc({ event, reason });
+}
+
+function recordModeration(action, reason) {
+  moderationActions.inc({ action, reason });
+}
+
+/**
+ * Time every handler registered on a socket from here on (sync or async)
+ * @param {import('socket.io').Socket} socket
+ */
+function instrumentSocket(socket) {
+  const on = socket.on.bind(socket);
+  socket.on = (event, handler) => on(event, (...args) => {
+    const end = handlerDuration.startTimer({ event });
+    try {
+      const result = handler(...args);
+      if (result && typeof result.finally === 'function') return result.finally(end);
+      end();
+      return result;
+    } catch (err) {
+      end();
+      throw err;
+    }
+  });
+}
+
+/**
+ * Serialize every metric for a scrape
+ * @returns {Promise<{ contentType: string, body: string }>}
+ */
+async function scrape() {
+  return { contentType: register.contentType, body: await register.metrics() };
+}
+
+module.exports = {
+  registerGauges,
+  recordMessage,
+  forgetRoom,
+  recordRateLimited,
+  recordModeration,
+  instrumentSocket,
+  scrape,
+};
@@ -1,127 +1,243 @@
 /**
  * Witch@ Content Moderation
  *
- * - Blocks URLs
- * - Detects bigotry, masks slurs, triggers accountability
+ * - Links, per the policy's link mode: blocked outright, allowed only for allowlisted domains,
+ *   or allowed and marked inert. Spelled-out ones ("example dot com", "example[.]com") count too;
+ *   file names and version strings ("node.js", "v1.2.3") don't
+ * - Matches policy terms by category; each category's severity decides: mask, block, or strike
+ *   (mask, and count toward the strike ladder - how bigotry is handled)
+ * - Matching runs on normalized text (lib/normalize.js) so homoglyphs, spacing, leetspeak
+ *   and repeated letters don't get around it; whole-word matching keeps "Scunthorpe" safe
+ * - Terms, TLDs and masking come from a policy (lib/policy.js loads and watches the file);
+ *   without one, the bundled lib/moderation-policy.json applies
  */
 
-// URL detection regex
-const URL_REGEX = /https?:\/\/[^\s]+|www\.[^\s]+|[a-zA-Z0-9-]+\.(com|org|net|io|co|gg|me|tv|xyz|app|dev|info|biz|us|uk|ca|au|de|fr|jp|ru|ch|nl|be|it|es|pt|pl|se|no|fi|dk|at|nz|ie|in|br|mx|ar|cl|za|kr|cn|tw|hk|sg|my|ph|th|vn|id)[^\s]*/gi;
-
-// Bigotry wordlist - lowercase, will be matched case-insensitively
-// This is a starter list - edit as needed
-const BIGOTRY_TERMS = [
-  // Racial slurs
-  'nigger', 'nigga', 'n1gger', 'n1gga', 'nigg3r', 'nigg4',
-  'chink', 'ch1nk',
-  'spic', 'sp1c', 'spick',
-  'wetback',
-  'kike', 'k1ke',
-  'gook',
-  'raghead', 'towelhead',
-  'beaner',
-  'coon',
-  'darkie',
-  'jigaboo',
-  'porch monkey',
-  'jungle bunny',
-  'sand nigger',
-
-  // Homophobic/transphobic slurs
-  'faggot', 'fag', 'f4ggot', 'f4g', 'fagg0t',
-  'dyke', 'd1ke', 'dyk3',
-  'tranny', 'tr4nny',
-  'shemale', 'she-male',
-
-  // Other bigotry
-  'retard', 'retarded', 'r3tard',
-  'tard',
-];
-
-// Build regex for efficient matching
-// Handles word boundaries and common letter substitutions
-function buildBigotryRegex() {
-  const escaped = BIGOTRY_TERMS.map(term => {
-    // Escape special regex chars
-    return term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  });
+const { foldText, normalizeWords } = require('./normalize');
+const DEFAULT_POLICY = require('./moderation-policy.json');
+
+// Spelled-out dots only count before TLDs that aren't everyday words ("it's over. me too" is not a link)
+const OBFUSCATED_TLD = '(?:com|org|net|io|gg|xyz|app|dev|info|biz|ru)\\b';
+const BRACKETED_DOT_REGEX = /\s*[([{<]\s*(?:dot|\.)\s*[)\]}>]\s*/g;
+const SPELLED_DOT_REGEX = new RegExp(`([a-z0-9-]+)\\s+dot\\s+(?=${OBFUSCATED_TLD})`, 'g');
+const SPACED_DOT_REGEX = new RegExp(`\\s*\\.\\s+(?=${OBFUSCATED_TLD})|\\s+\\.\\s*(?=${OBFUSCATED_TLD})`, 'g');
+const NOT_A_DOMAIN = new Set(['a', 'an', 'the', 'this', 'that', 'one', 'per', 'old', 'big']); // "the dot com bubble"
+
+// Least to most severe; a message takes the most severe severity among its matches
+const SEVERITIES = ['allow', 'mask', 'block', 'strike'];
+const MASKING = ['first-letter', 'full', 'redact'];
+// Least to most strict: inert (any link, never clickable), allowlist (only allowlisted domains, clickable), block
+const LINK_MODES = ['inert', 'allowlist', 'block'];
+
+// Link candidates: scheme or www. prefixed, or a bare dotted name (not part of an email or path)
+const LINK_CANDIDATE_REGEX = /\bhttps?:\/\/[^\s<>"]+|\bwww\.[^\s<>"]+|(?<![\w@./-])(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,24}(?![\w-])(?:[/?#][^\s<>"]*)?/gi;
+const TRAILING_PUNCTUATION_REGEX = /[.,;:!?)\]}'"]+$/;
+// TLDs that are also file extensions or everyday words: a bare "script.pl" or "ok.no" needs a path to be a link
+const AMBIGUOUS_TLDS = new Set(['sh', 'pl', 'rs', 'md', 'py', 'ts', 'js', 'cs', 'in', 'it', 'is', 'no', 'me', 'at', 'be', 'so', 'to', 'id', 'us', 'my', 'ca', 'ch', 'de']);
+
+// A term as a pattern over normalized text: normalized text keeps at most two of any letter,
+// so a single letter matches one or two ("fag" / "faag") and a double letter needs both
+function termPattern(term) {
+  return normalizeWords(term).text
+    .match(/(.)\1*/g)
+    .map((run) => (run[0] === ' ' ? ' ?' : run.length > 1 ? run[0] + run[0] : `${run[0]}{1,2}`))
+    .join('');
+}
+
+// Build regex for efficient matching over normalized words
+function buildTermRegex(terms) {
+  const patterns = [...new Set(terms.map(termPattern).filter(Boolean))];
+  if (patterns.length === 0) return null;
   // Match as whole words or with common suffixes
-  return new RegExp(`\\b(${escaped.join('|')})(s|ed|ing|er|ers)?\\b`, 'gi');
+  return new RegExp(`\\b(?:${patterns.join('|')})(?:s|ed|ing|er|ers)?\\b`, 'g');
+}
+
+/**
+ * Compile a validated policy (see lib/policy.js) into matchers
+ * @param {{ masking: string, links: { mode: string, tlds: string[], domains?: string[] }, categories: Record<string, { severity: string, terms: string[] }> }} policy
+ */
+function compilePolicy(policy) {
+  return {
+    masking: policy.masking,
+    links: {
+      mode: policy.links.mode,
+      tlds: new Set(policy.links.tlds.map((t) => t.toLowerCase())),
+      domains: (policy.links.domains || []).map((d) => d.toLowerCase()),
+    },
+    categories: Object.entries(policy.categories)
+      .filter(([, category]) => category.severity !== 'allow')
+      .map(([name, category]) => ({ name, severity: category.severity, regex: buildTermRegex(category.terms) }))
+      .filter((category) => category.regex),
+  };
+}
+
+const DEFAULT_COMPILED = compilePolicy(DEFAULT_POLICY);
+
+// Undo spelled-out and spaced dots so "example dot com" reads as "example.com"
+function revealDots(text) {
+  return foldText(text)
+    .replace(/\u3002/g, '.')
+    .replace(BRACKETED_DOT_REGEX, '.')
+    .replace(SPELLED_DOT_REGEX, (match, left) => (NOT_A_DOMAIN.has(left) ? match : `${left}.`))
+    .replace(SPACED_DOT_REGEX, '.');
 }
 
-const BIGOTRY_REGEX = buildBigotryRegex();
+/**
+ * Find links in text
+ * @param {string} text
+ * @param {ReturnType<typeof compilePolicy>} [policy] supplies the TLDs that make a bare name a link
+ * @returns {{ start: number, end: number, href: string, host: string }[]}
+ */
+function findLinks(text, policy = DEFAULT_COMPILED) {
+  const links = [];
+  for (const m of text.matchAll(LINK_CANDIDATE_REGEX)) {
+    const url = m[0].replace(TRAILING_PUNCTUATION_REGEX, '');
+    const prefixed = /^(https?:\/\/|www\.)/i.test(url);
+    const host = url.replace(/^https?:\/\//i, '').split(/[/?#:]/)[0].toLowerCase();
+    const labels = host.split('.');
+    const tld = labels[labels.length - 1];
+    if (labels.length < 2 || !tld) continue;
+    if (!prefixed) {
+      // Bare names: a known TLD, not a version string, and a path if the TLD doubles as a file extension
+      if (!policy.links.tlds.has(tld) || labels.some((l) => /^\d+$/.test(l))) continue;
+      if (AMBIGUOUS_TLDS.has(tld) && !/[/?#]/.test(url)) continue;
+    }
+    links.push({
+      start: m.index,
+      end: m.index + url.length,
+      href: /^https?:\/\//i.test(url) ? url : `https://${url}`,
+      host: host.replace(/^www\./, ''),
+    });
+  }
+  return links;
+}
 
 /**
- * Check if message contains a URL
+ * Check if message contains a URL, spelled-out ones included
  * @param {string} text
+ * @param {ReturnType<typeof compilePolicy>} [policy]
  * @returns {boolean}
  */
-function containsUrl(text) {
-  return URL_REGEX.test(text);
+function containsUrl(text, policy = DEFAULT_COMPILED) {
+  return findLinks(text, policy).length > 0 || findLinks(revealDots(text), policy).length > 0;
+}
+
+// Allowlisted: the domain itself or any subdomain of it
+function isAllowedHost(host, policy) {
+  return policy.links.domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+}
+
+// Spans of the original text whose normalized form matches a policy term, most severe category first
+function findTerms(text, policy) {
+  const { text: normalized, spanAt } = normalizeWords(text);
+  const found = [];
+  for (const category of policy.categories) {
+    for (const m of normalized.matchAll(category.regex)) {
+      const span = spanAt(m.index, m.index + m[0].length);
+      if (!found.some((f) => f.start === span.start)) found.push({ ...span, category: category.name, severity: category.severity });
+    }
+  }
+  return found.sort((a, b) => SEVERITIES.indexOf(b.severity) - SEVERITIES.indexOf(a.severity));
 }
 
 /**
- * Check if message contains bigotry
+ * Check if message contains bigotry - terms in any strike-severity category
  * @param {string} text
+ * @param {ReturnType<typeof compilePolicy>} [policy]
  * @returns {{ found: boolean, matches: string[] }}
  */
-function detectBigotry(text) {
-  const matches = text.match(BIGOTRY_REGEX);
+function detectBigotry(text, policy = DEFAULT_COMPILED) {
+  const matches = findTerms(text, policy)
+    .filter((f) => f.severity === 'strike')
+    .map(({ start, end }) => text.slice(start, end));
   return {
-    found: matches !== null && matches.length > 0,
-    matches: matches || [],
+    found: matches.length > 0,
+    matches,
   };
 }
 
 /**
- * Mask a slur - keeps first letter, replaces rest with asterisks
+ * Mask a slur - by default keeps first letter, replaces the rest (but not spaces) with asterisks
  * @param {string} word
+ * @param {string} [masking] first-letter, full (every letter starred) or redact
  * @returns {string}
  */
-function maskSlur(word) {
-  if (word.length <= 1) return '*';
-  return word[0] + '*'.repeat(word.length - 1);
+function maskSlur(word, masking = 'first-letter') {
+  if (masking === 'redact') return '[removed]';
+  if (masking === 'full' || word.length <= 1) return word.replace(/\S/g, '*');
+  return word[0] + word.slice(1).replace(/\S/g, '*');
+}
+
+function maskSpans(text, spans, masking) {
+  let masked = text;
+  // Right to left so earlier spans keep their offsets
+  for (const { start, end } of [...spans].sort((a, b) => b.start - a.start)) {
+    masked = masked.slice(0, start) + maskSlur(masked.slice(start, end), masking) + masked.slice(end);
+  }
+  return masked;
 }
 
 /**
- * Mask all bigotry in a message
+ * Mask every policy term in a message
  * @param {string} text
+ * @param {ReturnType<typeof compilePolicy>} [policy]
  * @returns {string}
  */
-function maskBigotry(text) {
-  return text.replace(BIGOTRY_REGEX, (match) => maskSlur(match));
+function maskBigotry(text, policy = DEFAULT_COMPILED) {
+  return maskSpans(text, findTerms(text, policy), policy.masking);
 }
 
 /**
  * Full moderation check
  * @param {string} text
- * @returns {{ allowed: boolean, reason?: string, maskedText?: string, isBigotry?: boolean }}
+ * @param {ReturnType<typeof compilePolicy>} [policy] defaults to the bundled policy
+ * @param {string} [linkMode] overrides the policy's link mode (a room setting)
+ * @returns {{ allowed: boolean, reason?: string, category?: string, maskedText?: string, strike?: boolean, links?: { start: number, end: number, href?: string }[] }}
+ *   reason is "no-links", "link-not-allowed", or the category of the most severe term found.
+ *   links are spans in the text as sent (maskedText when present): with href they may be rendered clickable,
+ *   without it they are shown as plain, inert text
  */
-function moderate(text) {
-  // Check for URLs first
-  if (containsUrl(text)) {
-    return { allowed: false, reason: 'no-links' };
+function moderate(text, policy = DEFAULT_COMPILED, linkMode = policy.links.mode) {
+  // Check for URLs first; spelled-out links can't be clicked, but still count against block and allowlist
+  if (linkMode !== 'inert') {
+    const links = [...findLinks(text, policy), ...findLinks(revealDots(text), policy)];
+    if (linkMode === 'block' && links.length > 0) {
+      return { allowed: false, reason: 'no-links' };
+    }
+    if (links.some((link) => !isAllowedHost(link.host, policy))) {
+      return { allowed: false, reason: 'link-not-allowed' };
+    }
   }
 
-  // Check for bigotry
-  const bigotry = detectBigotry(text);
-  if (bigotry.found) {
-    return {
-      allowed: true, // Allow but masked
-      reason: 'bigotry',
-      maskedText: maskBigotry(text),
-      isBigotry: true,
-    };
+  const found = findTerms(text, policy);
+  const [worst] = found;
+  if (worst && worst.severity === 'block') {
+    return { allowed: false, reason: worst.category, category: worst.category };
   }
 
-  return { allowed: true };
+  const maskedText = worst ? maskSpans(text, found, policy.masking) : undefined;
+  const links = findLinks(maskedText || text, policy).map(({ start, end, href }) =>
+    (linkMode === 'allowlist' ? { start, end, href } : { start, end }));
+  if (!worst) return links.length > 0 ? { allowed: true, links } : { allowed: true };
+  return {
+    allowed: true, // Allow but masked
+    reason: worst.category,
+    category: worst.category,
+    maskedText,
+    strike: worst.severity === 'strike',
+    ...(links.length > 0 ? { links } : {}),
+  };
 }
 
 module.exports = {
+  compilePolicy,
+  findLinks,
   containsUrl,
   detectBigotry,
   maskSlur,
   maskBigotry,
   moderate,
-  BIGOTRY_TERMS, // Export for editing
+  DEFAULT_POLICY,
+  SEVERITIES,
+  MASKING,
+  LINK_MODES,
 };
@@ -0,0 +1,128 @@
+/**
+ * Witch@ Text Normalization
+ *
+ * - Folds text to a plain lowercase Latin skeleton for matching: Unicode compatibility forms,
+ *   accents, invisible characters and look-alike letters (Cyrillic "а", Greek "ο") all collapse
+ * - Word view for term matching: leetspeak, punctuation inside words, spaced-out letters
+ *   ("f a g", "f.a.g") and character repetition are undone, keeping each word's span in the original
+ * - Used only to decide; what users see is always the original text
+ */
+
+// Zero-width joiners, soft hyphens, bidi controls, variation selectors, Hangul fillers
+const INVISIBLE_REGEX = /[\u00AD\u034F\u061C\u115F\u1160\u17B4\u17B5\u180B-\u180E\u200B-\u200F\u202A-\u202E\u2060-\u206F\u3164\uFE00-\uFE0F\uFEFF]/g;
+
+// Letters NFKD leaves alone that read as Latin ones
+const CONFUSABLES = {
+  // Cyrillic
+  'а': 'a', 'в': 'b', 'е': 'e', 'һ': 'h', 'н': 'h', 'і': 'i', 'ј': 'j', 'к': 'k', 'ӏ': 'l', 'м': 'm',
+  'о': 'o', 'р': 'p', 'ԛ': 'q', 'г': 'r', 'ѕ': 's', 'т': 't', 'у': 'y', 'х': 'x', 'ԁ': 'd', 'ԝ': 'w',
+  // Greek
+  'α': 'a', 'β': 'b', 'ε': 'e', 'η': 'n', 'ι': 'i', 'κ': 'k', 'μ': 'u', 'ν': 'v', 'ο': 'o', 'ρ': 'p',
+  'τ': 't', 'υ': 'u', 'χ': 'x', 'ω': 'w', 'ς': 's',
+  // Latin extensions and IPA
+  'ı': 'i', 'ɩ': 'i', 'ɑ': 'a', 'ɡ': 'g', 'ø': 'o', 'ł': 'l', 'đ': 'd', 'ħ': 'h', 'ß': 'ss', 'æ': 'ae', 'œ': 'oe',
+};
+const CONFUSABLE_REGEX = new RegExp(`[${Object.keys(CONFUSABLES).join('')}]`, 'g');
+
+// Digits and symbols standing in for letters - only in the word view, where numbers don't matter
+const LEET = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g', '@': 'a', '$': 's' };
+const LEET_REGEX = /[0134579@$]|(?<=\p{L})!(?=\p{L})/gu;
+
+/**
+ * Fold text to lowercase Latin: compatibility forms, accents, invisibles and confusables
+ * @param {string} text
+ * @returns {string}
+ */
+function foldText(text) {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(INVISIBLE_REGEX, '')
+    .replace(CONFUSABLE_REGEX, (c) => CONFUSABLES[c]);
+}
+
+/**
+ * Shorten runs of one character to at most two ("niiiice" -> "niice")
+ * Two, not one, so words spelled with double letters stay distinguishable
+ * @param {string} text
+ * @returns {string}
+ */
+function collapseRepeats(text) {
+  return text.replace(/(.)\1{2,}/g, '$1$1');
+}
+
+// One whitespace-separated chunk reduced to [a-z0-9]
+function normalizeChunk(chunk) {
+  return foldText(chunk)
+    .replace(LEET_REGEX, (c) => LEET[c] || 'i')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Split text into normalized words with their spans in the original
+ * Runs of single letters ("n i c e") are joined into one word
+ * @param {string} text
+ * @returns {{ word: string, start: number, end: number }[]}
+ */
+function toWords(text) {
+  const chunks = [];
+  for (const m of text.matchAll(/\S+/g)) {
+    const word = normalizeChunk(m[0]);
+    if (word) chunks.push({ word, start: m.index, end: m.index + m[0].length });
+  }
+
+  const words = [];
+  for (let i = 0; i < chunks.length; i++) {
+    let j = i;
+    while (j + 1 < chunks.length && chunks[j].word.length === 1 && chunks[j + 1].word.length === 1) j++;
+    const run = chunks.slice(i, j + 1);
+    words.push({
+      word: collapseRepeats(run.map((c) => c.word).join('')),
+      start: run[0].start,
+      end: run[run.length - 1].end,
+    });
+    i = j;
+  }
+  return words;
+}
+
+/**
+ * Normalized words joined by single spaces, with a lookup from normalized offsets to original spans
+ * @param {string} text
+ * @returns {{ text: string, spanAt: (from: number, to: number) => { start: number, end: number } }}
+ */
+function normalizeWords(text) {
+  const words = toWords(text);
+  const offsets = [];
+  let normalized = '';
+  for (const w of words) {
+    if (normalized) normalized += ' ';
+    offsets.push(normalized.length);
+    normalized += w.word;
+  }
+
+  // Original span covering every word that [from, to) touches
+  function spanAt(from, to) {
+    let first = -1;
+    let last = -1;
+    words.forEach((w, i) => {
+      const wStart = offsets[i];
+      const wEnd = wStart + w.word.length;
+      if (wStart < to && wEnd > from) {
+        if (first === -1) first = i;
+        last = i;
+      }
+    });
+    return { start: words[first].start, end: words[last].end };
+  }
+
+  return { text: normalized, spanAt };
+}
+
+module.exports = {
+  foldText,
+  collapseRepeats,
+  toWords,
+  normalizeWords,
+};
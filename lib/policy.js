@@ -0,0 +1,221 @@
+/**
+ * Witch@ Moderation Policy
+ *
+ * - Loads the moderation policy (term categories with severities, masking, link policy) from a JSON file
+ *   and reloads it whenever the file changes - no restart
+ * - Every load is validated; a bad file is logged and the policy already in force stays
+ * - rooms.<roomId> overrides can only make a room stricter: raise a category's severity, add terms or
+ *   categories, move to a stricter link mode or a narrower domain allowlist. Masking may differ either way
+ * - Defaults to the bundled lib/moderation-policy.json
+ */
+
+const fs = require('fs');
+const path = require('path');
+const moderation = require('./moderation');
+
+const DEFAULT_POLICY_PATH = path.join(__dirname, 'moderation-policy.json');
+const WATCH_INTERVAL_MS = 2000; // Polling survives editors' atomic saves and Kubernetes ConfigMap symlink swaps
+const MAX_TERM_LENGTH = 64;
+
+const MAX_DOMAIN_LENGTH = 253;
+const DOMAIN_REGEX = /^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,24}$/;
+
+const rank = (severity) => moderation.SEVERITIES.indexOf(severity);
+const linkRank = (mode) => moderation.LINK_MODES.indexOf(mode);
+
+let active = {
+  policy: moderation.DEFAULT_POLICY,
+  compiled: moderation.compilePolicy(moderation.DEFAULT_POLICY),
+  rooms: new Map(), // roomId -> compiled policy with the room's override merged in
+  loadedAt: Date.now(),
+};
+let watchedPath = null;
+
+function isObject(value) {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkTerms(terms, at) {
+  if (!Array.isArray(terms)) return `${at} must be an array`;
+  const bad = terms.findIndex((t) => typeof t !== 'string' || !t.trim() || t.length > MAX_TERM_LENGTH);
+  return bad === -1 ? null : `${at}[${bad}] must be a non-empty string of at most ${MAX_TERM_LENGTH} characters`;
+}
+
+function checkDomains(domains, at) {
+  if (!Array.isArray(domains)) return `${at} must be an array`;
+  const bad = domains.findIndex((d) => typeof d !== 'string' || d.length > MAX_DOMAIN_LENGTH || !DOMAIN_REGEX.test(d));
+  return bad === -1 ? null : `${at}[${bad}] must be a lowercase domain like "example.com"`;
+}
+
+function checkOneOf(value, options, at) {
+  return options.includes(value) ? null : `${at} must be one of ${options.join(', ')}`;
+}
+
+// A room override, checked against the default it tightens
+function checkRoom(override, base, at) {
+  if (!isObject(override)) return `${at} must be an object`;
+  if (override.masking !== undefined) {
+    const error = checkOneOf(override.masking, moderation.MASKING, `${at}.masking`);
+    if (error) return error;
+  }
+  if (override.links !== undefined) {
+    if (!isObject(override.links)) return `${at}.links must be an object`;
+    const mode = override.links.mode === undefined ? base.links.mode : override.links.mode;
+    const error = checkOneOf(mode, moderation.LINK_MODES, `${at}.links.mode`);
+    if (error) return error;
+    if (linkRank(mode) < linkRank(base.links.mode)) {
+      return `${at}.links.mode can't be less strict than the default (${base.links.mode})`;
+    }
+    if (override.links.tlds !== undefined) return `${at}.links.tlds can only be set for the whole policy`;
+    if (override.links.domains !== undefined) {
+      const domainError = checkDomains(override.links.domains, `${at}.links.domains`);
+      if (domainError) return domainError;
+      const baseDomains = base.links.domains || [];
+      const extra = base.links.mode === 'allowlist' && override.links.domains.find((d) => !baseDomains.includes(d));
+      if (extra) return `${at}.links.domains can't add ${extra} to the default allowlist`;
+    }
+  }
+  if (override.categories !== undefined) {
+    if (!isObject(override.categories)) return `${at}.categories must be an object`;
+    for (const [name, category] of Object.entries(override.categories)) {
+      const where = `${at}.categories.${name}`;
+      if (!isObject(category)) return `${where} must be an object`;
+      const baseCategory = base.categories[name];
+      if (category.severity !== undefined || !baseCategory) {
+        const error = checkOneOf(category.severity, moderation.SEVERITIES, `${where}.severity`);
+        if (error) return error;
+      }
+      if (baseCategory && category.severity !== undefined && rank(category.severity) < rank(baseCategory.severity)) {
+        return `${where}.severity can't be less strict than the default (${baseCategory.severity})`;
+      }
+      if (category.terms !== undefined || !baseCategory) {
+        const error = checkTerms(category.terms, `${where}.terms`);
+        if (error) return error;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate a parsed policy file
+ * @param {unknown} policy
+ * @returns {string | null} error message, or null when valid
+ */
+function validatePolicy(policy) {
+  if (!isObject(policy)) return 'policy must be an object';
+  let error = checkOneOf(policy.masking, moderation.MASKING, 'policy.masking');
+  if (error) return error;
+
+  if (!isObject(policy.links)) return 'policy.links must be an object';
+  error = checkOneOf(policy.links.mode, moderation.LINK_MODES, 'policy.links.mode')
+    || checkTerms(policy.links.tlds, 'policy.links.tlds')
+    || (policy.links.domains === undefined ? null : checkDomains(policy.links.domains, 'policy.links.domains'));
+  if (error) return error;
+
+  if (!isObject(policy.categories)) return 'policy.categories must be an object';
+  for (const [name, category] of Object.entries(policy.categories)) {
+    if (!isObject(category)) return `policy.categories.${name} must be an object`;
+    error = checkOneOf(category.severity, moderation.SEVERITIES, `policy.categories.${name}.severity`)
+      || checkTerms(category.terms, `policy.categories.${name}.terms`);
+    if (error) return error;
+  }
+
+  if (policy.rooms !== undefined) {
+    if (!isObject(policy.rooms)) return 'policy.rooms must be an object';
+    for (const [roomId, override] of Object.entries(policy.rooms)) {
+      error = checkRoom(override, policy, `policy.rooms.${roomId}`);
+      if (error) return error;
+    }
+  }
+  return null;
+}
+
+// The default with one room's override applied (override already validated)
+function mergeRoom(policy, override) {
+  const categories = { ...policy.categories };
+  for (const [name, category] of Object.entries(override.categories || {})) {
+    const base = categories[name] || { severity: 'allow', terms: [] };
+    categories[name] = {
+      severity: category.severity || base.severity,
+      terms: [...base.terms, ...(category.terms || [])],
+    };
+  }
+  return {
+    masking: override.masking || policy.masking,
+    links: { ...policy.links, ...(override.links || {}) },
+    categories,
+  };
+}
+
+/**
+ * Read, validate and swap in the policy at a path; the current policy stays on any failure
+ * @param {string} file
+ * @returns {Promise<{ ok: boolean, error?: string }>}
+ */
+async function load(file) {
+  let policy;
+  try {
+    policy = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+  } catch (err) {
+    return { ok: false, error: err.message };
+  }
+  const error = validatePolicy(policy);
+  if (error) return { ok: false, error };
+
+  const rooms = new Map();
+  for (const [roomId, override] of Object.entries(policy.rooms || {})) {
+    rooms.set(roomId, moderation.compilePolicy(mergeRoom(policy, override)));
+  }
+  active = { policy, compiled: moderation.compilePolicy(policy), rooms, loadedAt: Date.now() };
+  return { ok: true };
+}
+
+/**
+ * Load the policy file and reload it whenever it changes
+ * @param {{ file?: string, logger: { info: Function, error: Function } }} options
+ */
+async function watch({ file = DEFAULT_POLICY_PATH, logger }) {
+  const report = (result, event) => {
+    if (result.ok) logger.info(event, { file, ...describe() });
+    else logger.error('Moderation policy rejected, keeping the current one', { file, error: result.error });
+  };
+
+  report(await load(file), 'Moderation policy loaded');
+  watchedPath = file;
+  fs.watchFile(file, { interval: WATCH_INTERVAL_MS }, (curr, prev) => {
+    if (curr.mtimeMs === prev.mtimeMs) return;
+    load(file).then((result) => report(result, 'Moderation policy reloaded'));
+  });
+}
+
+function unwatch() {
+  if (watchedPath) fs.unwatchFile(watchedPath);
+  watchedPath = null;
+}
+
+/**
+ * Compiled policy for a room: its override if the file has one, else the default
+ * @param {string} roomId
+ */
+function forRoom(roomId) {
+  return active.rooms.get(roomId) || active.compiled;
+}
+
+function describe() {
+  return {
+    categories: Object.keys(active.policy.categories),
+    rooms: [...active.rooms.keys()],
+    loadedAt: active.loadedAt,
+  };
+}
+
+module.exports = {
+  DEFAULT_POLICY_PATH,
+  validatePolicy,
+  load,
+  watch,
+  unwatch,
+  forRoom,
+  describe,
+};
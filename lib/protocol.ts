@@ -0,0 +1,464 @@
+/**
+ * Witch@ socket protocol.
+ * Single source of truth for event names and payload shapes shared by
+ * socket-server.js (via JSDoc, checked with tsconfig.server.json) and the client (lib/socket.ts).
+ * Change a payload here and both sides fail the type-check until they agree.
+ */
+
+export type Mood = "calm" | "neutral" | "intense";
+
+export type Identity = {
+  color: string;
+  handle: string | null;
+  tag: string | null;
+  sigil: string | null;
+};
+
+// A message as it travels over the wire (client adds leaving/ghost locally)
+export type StreamMessage = {
+  id: string;
+  text: string;
+  color: string;
+  handle: string | null;
+  tag?: string | null;
+  sigil?: string | null;
+  whisper?: boolean;
+  ts: number;
+  flagged?: boolean; // Message was moderated (bigotry masked)
+  hashtags?: string[]; // Hashtags extracted from message text for topic subscriptions
+  links?: LinkSpan[]; // Links found in text, by character offset
+  hidden?: boolean; // Hidden after enough reports, pending review
+};
+
+// A link inside a message; without href it is shown as plain text, never clickable
+export type LinkSpan = {
+  start: number;
+  end: number;
+  href?: string;
+};
+
+// Least to most strict: any link shown inert, allowlisted domains only (clickable), no links
+export type LinkMode = "inert" | "allowlist" | "block";
+
+export type PresenceGhost = {
+  color: string;
+  handle: string | null;
+  fade: number; // 0-1, how faded
+};
+
+export type AttentionState = {
+  id?: string; // Socket ID for unique identification (Issue #3)
+  color: string;
+  handle: string | null;
+  focused: boolean;
+  steppingAway?: boolean;
+};
+
+export type RoomInfo = {
+  id: string;
+  title: string;
+  description?: string | null; // Set by the room's keeper
+  secret: boolean;
+  locked?: boolean; // Only moderators can speak
+  hasPassphrase?: boolean; // Secret room that can be entered with a passphrase
+  pinned?: boolean; // Kept by its keeper even when it sits empty
+  settings?: StreamSettings;
+  schedule?: RoomSchedule | null; // Opening hours; none means always open
+  opening?: RoomOpening; // Scheduled rooms only
+};
+
+// How a room's stream behaves (lib/stream-settings.js); the keeper can tune it
+export type StreamSettings = {
+  ghostMessages: number; // Recent messages newcomers inherit as ghosts
+  visibleMessages: number; // Newest messages shown clearly (the Rule of Three)
+  fadedMessages: number; // Older messages fading out behind them
+  presenceGhostMs: number; // How long someone who left lingers as a presence ghost
+  silenceMs: number; // Quiet this long settles the room
+  moodDecayMs: number; // Without messages this long, the mood drifts back toward neutral
+  awayMs: number; // Stepped away this long disconnects
+};
+
+// Opening hours as a client asks for them: wall-clock times in the given IANA time zone.
+// days run 0 (Sunday) to 6; daily ignores them. A close at or before the open runs past midnight
+export type RoomScheduleInput =
+  | { kind: "daily" | "weekly"; days?: number[]; open: string; close: string; timeZone: string } // "20:00"
+  | { kind: "once"; start: string; end: string; timeZone: string }; // "2025-06-01T20:00"
+
+// Opening hours as stored (lib/schedule.js); a one-off window also carries its instants
+export type RoomSchedule =
+  | { kind: "daily" | "weekly"; days: number[]; open: string; close: string; timeZone: string }
+  | { kind: "once"; start: string; end: string; startsAt: number; endsAt: number; timeZone: string };
+
+// Whether a scheduled room is open right now; opensAt is null while open and once a one-off window has passed
+export type RoomOpening = {
+  open: boolean;
+  opensAt: number | null;
+  closesAt: number | null;
+};
+
+// Room metadata as persisted and replicated between server nodes
+export type RoomMeta = RoomInfo & {
+  linkMode?: LinkMode | null; // Set by a moderator; null follows the moderation policy
+  passphrase?: string | null; // scrypt hash (lib/room-access.js); never sent to clients
+  accessEpoch?: number; // Bumped to void every invite and pass issued for the room
+  keeper?: string | null; // clientId of the room's keeper; never sent to clients
+  parentId?: string | null; // The room this one branched from
+  createdAt: number;
+  lastActivity: number;
+  lastMessageTs: number;
+};
+
+// Ways into a secret room (lib/room-access.js): a passphrase, an invite token, or a pass from an earlier visit
+export type RoomCredentials = {
+  passphrase?: string;
+  invite?: string;
+  pass?: string;
+};
+
+export type RoomInvite = {
+  roomId: string;
+  token: string;
+  link: string; // Path on the web app that joins the room with this invite
+  expiresAt: number;
+  maxUses: number;
+};
+
+export type RoomListItem = {
+  id: string;
+  title: string;
+  description?: string | null;
+  presence: number;
+  listeners: number; // Following the room from another one
+  mood: Mood;
+  lastActivity: number;
+  opening?: RoomOpening; // Scheduled rooms only
+  parentId?: string | null; // Branches: the room they branched from
+};
+
+// What changed in the room directory since the last push: rooms new or changed, and ids of rooms gone
+export type RoomListUpdate = {
+  rooms: RoomListItem[];
+  removed: string[];
+};
+
+// Someone branched a tangent you were part of into its own room; invite is set when the branch is secret
+export type BranchInvite = {
+  roomId: string;
+  title: string;
+  parentId: string;
+  from: Speaker;
+  invite?: string;
+};
+
+// A room followed passively while speaking in another: pulses and mood, never its stream
+export type ListeningRoom = {
+  id: string;
+  title: string;
+  mood: Mood;
+};
+
+// Something happened in a room you listen to; message false is a mood change on its own. No content
+export type RoomPulse = {
+  roomId: string;
+  mood: Mood;
+  message: boolean;
+};
+
+// What the socket server's GET /rooms/:roomId tells the web app about a room, for link previews.
+// Public rooms only: the Socket server answers 404 for secret rooms, as for missing ones; never any message content
+export type RoomPreview = {
+  id: string;
+  title: string;
+  opening?: RoomOpening;
+};
+
+export type CrosstalkParticipant = {
+  color: string;
+  handle: string | null;
+};
+
+export type DMMessage = {
+  id: string;
+  text: string;
+  color: string;
+  handle: string | null;
+  sigil: string | null;
+  targetColor: string;
+  targetSocketId?: string; // Socket ID for unique DM targeting
+  targetHandle: string | null;
+  ts: number;
+};
+
+export type Speaker = {
+  color: string;
+  handle: string | null;
+};
+
+export type Reason = {
+  reason: string;
+};
+
+export type JoinPayload = {
+  color?: string | null;
+  handle?: string | null;
+  tag?: string | null;
+  sigil?: string | null;
+  clientId?: string;
+  roomId?: string;
+} & RoomCredentials;
+
+export type MessagePayload = string | { text: string; whisper?: boolean };
+
+export type RevealPayload = string | null | { handle?: string | null; tag?: string | null; sigil?: string | null };
+
+export type DMTarget = {
+  targetColor?: string;
+  targetSocketId?: string;
+};
+
+export type ArrivalVibe = {
+  presence: number;
+  mood: Mood;
+  quietFor: string | null;
+  hasGhosts: boolean;
+};
+
+// One rung of the automatic strike ladder (lib/strikes.js); a ban with minutes null is permanent
+export type StrikeStep = {
+  action: "warn" | "mute" | "ban";
+  minutes: number | null;
+};
+
+// Where a sender stands after an automatic strike: live strike count and what the next one brings
+export type StrikeInfo = {
+  strikes: number;
+  next: StrikeStep | null;
+};
+
+// A ban as stored in the registry (lib/bans.js); expiresAt null means permanent
+export type Ban = {
+  id: string;
+  ip: string | null;
+  clientId: string | null;
+  label: string | null; // Handle or color of the target when banned, for listings
+  reason: string;
+  moderator: string;
+  createdAt: number;
+  expiresAt: number | null;
+};
+
+// What moderators see when listing bans (no IPs or clientIds)
+export type BanSummary = Pick<Ban, "id" | "label" | "reason" | "moderator" | "createdAt" | "expiresAt">;
+
+// One person's report of a message
+export type Reporter = {
+  ip: string | null;
+  clientId: string | null;
+  color: string;
+  reason: string;
+  ts: number;
+};
+
+// Every report of one message in one room, as the admin API shows it
+export type MessageReport = {
+  id: string;
+  roomId: string;
+  messageId: string;
+  text: string; // Snapshot at the first report
+  verified: boolean; // The server still had the message, so text and author are its own, not the reporter's
+  author: { color: string; handle: string | null; ip: string | null; clientId: string | null } | null;
+  reporters: Reporter[];
+  status: "open" | "hidden" | "resolved"; // hidden: auto-hidden after enough independent reports, awaiting review
+  createdAt: number;
+  updatedAt: number;
+  resolution: { action: ReportAction; note: string | null; by: string; ts: number } | null;
+};
+
+export type ReportAction = "dismiss" | "hide" | "ban";
+
+export type ModAction = "kick" | "mute" | "ban" | "unban" | "clear" | "lock" | "unlock" | "links";
+
+// Target is a handle or #rrggbb color in the moderator's room
+export type ModTarget = {
+  target: string;
+  reason?: string;
+};
+
+// Broadcast to the room so moderation is visible, not silent
+export type ModerationNotice = {
+  action: ModAction;
+  target: string | null;
+  reason: string | null;
+  minutes?: number;
+  linkMode?: LinkMode | null; // "links" only
+  ts: number;
+};
+
+export type SpamAction = "drop" | "throttle" | "shadow-mute";
+
+// Sent to the room's moderators when the spam scorer starts acting on someone (lib/spam.js)
+export type SpamFlag = {
+  color: string;
+  handle: string | null;
+  score: number;
+  action: SpamAction;
+  signals: string[]; // repeat, near-repeat, copypasta, flood, fresh-burst
+  ts: number;
+};
+
+// Operator broadcast from the admin API (or the server itself, e.g. when a room is closed)
+export type SystemNotice = {
+  text: string;
+  ts: number;
+};
+
+export type SilenceState = {
+  settled: boolean;
+  since?: number;
+};
+
+export interface ClientToServerEvents {
+  join: (payload: JoinPayload) => void;
+  message: (payload: MessagePayload) => void;
+  reveal: (payload: RevealPayload) => void;
+  typing: () => void;
+  "typing-stop": () => void;
+  ping: () => void;
+  focus: () => void;
+  blur: () => void;
+  affirm: (messageId: string) => void;
+  away: () => void;
+  back: () => void;
+  copy: (payload: { messageId: string | null }) => void;
+  summon: (target: string) => void;
+  "list-rooms": () => void;
+  "create-room": (payload: { title: string; secret?: boolean; passphrase?: string; schedule?: RoomScheduleInput }) => void; // A passphrase makes the room secret
+  "delete-room": (payload: { roomId: string }) => void;
+  "switch-room": (payload: { roomId: string } & RoomCredentials) => void;
+  "branch-room": (payload: { title: string }) => void; // A child of the room you're in, seeded with its last few messages; you move into it
+  "listen-room": (payload: { roomId: string } & RoomCredentials) => void; // Follow a room besides the one you're in
+  "unlisten-room": (payload: { roomId: string }) => void;
+  "create-invite": (payload: { minutes?: number; maxUses?: number }) => void; // For the secret room you're in
+  "update-room": (payload: { title?: string; description?: string | null; secret?: boolean; schedule?: RoomScheduleInput | null; pinned?: boolean; settings?: Partial<StreamSettings> }) => void; // Keeper only, room you're in; schedule null: always open
+  "hand-off-room": (payload: { target: string }) => void; // Keeper only: a handle or #rrggbb color in the room
+  dm: (payload: DMTarget & { text: string }) => void;
+  "dm-typing": (payload: DMTarget) => void;
+  "mod-auth": (secret: string) => void;
+  "mod-kick": (payload: ModTarget) => void;
+  "mod-mute": (payload: ModTarget & { minutes: number }) => void;
+  "mod-ban": (payload: ModTarget & { minutes?: number }) => void;
+  "mod-unban": (payload: { banId: string }) => void;
+  "mod-clear": () => void;
+  "mod-lock": (payload: { locked: boolean }) => void;
+  "mod-links": (payload: { mode: LinkMode | null }) => void;
+  "mod-list-bans": () => void;
+  report: (payload: { messageId: string; text: string; reason: string }) => void;
+}
+
+export interface ServerToClientEvents {
+  identity: (payload: Identity) => void;
+  presence: (count: number) => void;
+  listeners: (count: number) => void; // Following the room you're in from another one
+  attention: (state: AttentionState[]) => void;
+  "presence-ghosts": (ghosts: PresenceGhost[]) => void;
+  "room-joined": (payload: RoomInfo & { keeper?: boolean; resumed?: boolean }) => void; // keeper: you keep this room; resumed: reconnect within the session grace window
+  "room-info": (info: RoomInfo) => void; // The keeper changed the room
+  "room-update-failed": (payload: Reason) => void;
+  "keeper-status": (payload: { roomId: string; keeper: boolean }) => void;
+  "room-title": (title: string) => void;
+  ghosts: (messages: StreamMessage[]) => void;
+  stream: (messages: StreamMessage[]) => void;
+  mood: (mood: Mood) => void;
+  silence: (payload: SilenceState) => void;
+  "arrival-vibe": (payload: ArrivalVibe) => void;
+  message: (msg: StreamMessage) => void;
+  "message-rejected": (payload: Reason) => void;
+  "rate-limited": (payload: { event: string; reason: string }) => void;
+  "invalid-payload": (payload: { event: string; reason: string }) => void;
+  banned: (payload: Reason & { expiresAt: number | null } & Partial<StrikeInfo>) => void;
+  warned: (payload: Reason & StrikeInfo) => void;
+  "user-banned": (payload: Speaker & { handle: string; reason: string }) => void;
+  "identity-revealed": (payload: Identity) => void;
+  typing: (payload: Speaker) => void;
+  "typing-stop": (payload: { color: string }) => void;
+  pong: () => void;
+  affirmation: (payload: { messageId: string; color: string }) => void;
+  "user-away": (payload: Speaker) => void;
+  "user-back": (payload: Speaker) => void;
+  copy: (payload: Speaker) => void;
+  resonance: (payload: { messageId: string; count: number }) => void;
+  summoned: (payload: { byColor: string; byHandle: string | null }) => void;
+  "summon-sent": (payload: { target: string }) => void;
+  "summon-failed": (payload: { target: string; reason: string }) => void;
+  "room-list": (list: RoomListItem[]) => void; // The whole directory (on list-rooms, and when rooms come and go)
+  "room-list-update": (update: RoomListUpdate) => void; // Incremental, every few seconds while anything changes
+  "room-created": (payload: { roomId: string; title: string; secret: boolean; invite?: RoomInvite }) => void;
+  "room-create-failed": (payload: Reason) => void;
+  "room-deleted": (payload: { roomId: string }) => void;
+  "room-delete-failed": (payload: Reason) => void;
+  "room-switch-failed": (payload: Reason & { roomId?: string; needsPassphrase?: boolean; opensAt?: number | null }) => void; // opensAt: the room is closed
+  "room-closing": (payload: { roomId: string; closesAt: number }) => void; // Everyone in the room is moved to main when it closes
+  "room-pass": (payload: { roomId: string; pass: string }) => void; // Keep and send back with switch-room/join
+  "branch-invite": (invite: BranchInvite) => void;
+  "branch-failed": (payload: Reason) => void;
+  listening: (rooms: ListeningRoom[]) => void; // The rooms you listen to, whenever that changes
+  "listen-failed": (payload: Reason & { roomId?: string }) => void;
+  "room-pulse": (pulse: RoomPulse) => void;
+  "invite-created": (invite: RoomInvite) => void;
+  "invite-failed": (payload: Reason) => void;
+  "dm-received": (msg: DMMessage) => void;
+  "dm-typing": (payload: Speaker) => void;
+  "dm-failed": (payload: Reason) => void;
+  crosstalk: (payload: { participants: CrosstalkParticipant[]; ts: number }) => void;
+  "crosstalk-ended": (payload: { participants: string[] }) => void;
+  "server-shutdown": (payload: { message: string }) => void;
+  "mod-status": (payload: { moderator: boolean }) => void;
+  "mod-failed": (payload: Reason & { action: string }) => void;
+  "moderation-notice": (notice: ModerationNotice) => void;
+  "ban-list": (bans: BanSummary[]) => void;
+  kicked: (payload: Reason) => void;
+  muted: (payload: Reason & { until: number } & Partial<StrikeInfo>) => void;
+  "stream-cleared": () => void;
+  "room-locked": (payload: { locked: boolean }) => void;
+  "system-notice": (notice: SystemNotice) => void;
+  "spam-flagged": (flag: SpamFlag) => void;
+  "report-received": (payload: { messageId: string }) => void;
+  "report-failed": (payload: Reason) => void;
+  "message-hidden": (payload: { messageId: string }) => void;
+  "message-restored": (payload: { messageId: string }) => void;
+}
+
+// Server-to-server events (serverSideEmit) keeping each node's room replica in sync
+export interface InterServerEvents {
+  "room-created": (meta: RoomMeta) => void;
+  "room-deleted": (roomId: string) => void;
+  "room-message": (roomId: string, msg: StreamMessage, score: number) => void;
+  "room-seeded": (roomId: string, messages: StreamMessage[]) => void; // A new branch's carried-over messages
+  "room-identity": (roomId: string, color: string, updates: Omit<Identity, "color">) => void;
+  "room-ghost": (roomId: string, ghost: { color: string; handle: string | null; leftAt: number }) => void;
+  "room-activity": (roomId: string, ts: number) => void;
+  "ban-added": (ban: Ban) => void;
+  "ban-removed": (banId: string) => void;
+  "mute-added": (key: string, until: number) => void;
+  "room-cleared": (roomId: string) => void;
+  "room-updated": (meta: RoomMeta) => void;
+  "report-filed": (report: MessageReport) => void;
+  "message-hidden": (roomId: string, messageId: string, hidden: boolean) => void;
+  "directory-changed": () => void; // Presence changed on the sending node; the room list needs a fresh look
+}
+
+// Per-socket state kept on socket.data
+export type SocketData = {
+  color: string;
+  handle: string | null;
+  tag: string | null;
+  sigil: string;
+  room: string; // The room spoken in
+  listening: string[]; // Rooms followed besides it (listen-room)
+  ip: string; // Presence counts unique IPs across nodes
+  clientId: string | null; // Persistent per-browser id from join, keys session resumption
+  firstSeen: number | null; // When the clientId was first seen; fresh ones weigh in on spam bursts
+  focused: boolean;
+  steppingAway: boolean;
+  moderator: boolean; // Unlocked with MOD_SECRET via mod-auth
+};
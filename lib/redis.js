@@ -1,25 +1,70 @@
 /**
  * Redis client wrapper for Witch@.
+ * Room-scoped persistence (metadata, last-N messages, sentiment, presence ghosts).
  * Provides graceful fallback to in-memory storage if Redis is unavailable.
+ *
+ * Keys:
+ *   witchat:rooms                  set of persisted room ids
+ *   witchat:room:<id>              room metadata (JSON)
+ *   witchat:room:<id>:messages     list of message JSON
+ *   witchat:room:<id>:sentiment    list of scores
+ *   witchat:room:<id>:ghosts       list of presence ghost JSON
+ *   witchat:bans                   hash of banId -> ban record (JSON)
+ *   witchat:reports                hash of reportId -> message report (JSON)
+ *   witchat:session:<clientId>     disconnected session awaiting resumption (JSON, expires)
+ *   witchat:strikes:<key>          sorted set of strike timestamps for a clientId or IP (expires)
+ *   witchat:client:<clientId>      when the clientId was first seen (expires)
+ *   witchat:invite:<inviteId>      times a secret-room invite has been used (expires with the invite)
  */
 
 const Redis = require("ioredis");
 
 const REDIS_URL = process.env.REDIS_URL;
-const MESSAGES_KEY = "witchat:messages";
-const SENTIMENT_KEY = "witchat:sentiment";
+const KEY_PREFIX = "witchat";
+const ROOMS_KEY = `${KEY_PREFIX}:rooms`;
+const BANS_KEY = `${KEY_PREFIX}:bans`;
+const REPORTS_KEY = `${KEY_PREFIX}:reports`;
 const MESSAGE_TTL = 24 * 60 * 60; // 24 hours in seconds
+const CLIENT_SEEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // A clientId unseen for 30 days counts as new again
+const MAX_MEMORY_CLIENTS = 10000;
 
 let redis = null;
+let subscriber = null; // Dedicated connection for the Socket.io adapter's pub/sub
 let isRedisAvailable = false;
 
-// In-memory fallback storage
+// In-memory fallback storage: roomId -> { meta, messages, sentiment, ghosts }
 const memoryStore = {
-  messages: [],
-  sentiment: [],
+  rooms: new Map(),
+  bans: new Map(), // banId -> ban record
+  reports: new Map(), // reportId -> message report
+  sessions: new Map(), // clientId -> { session, expiresAt }
+  strikes: new Map(), // key -> strike timestamps
+  clients: new Map(), // clientId -> first seen (ms), oldest first
+  invites: new Map(), // inviteId -> { uses, expiresAt }
 };
 
-function initRedis() {
+function roomKey(roomId, suffix) {
+  return suffix ? `${KEY_PREFIX}:room:${roomId}:${suffix}` : `${KEY_PREFIX}:room:${roomId}`;
+}
+
+function memoryRoom(roomId) {
+  if (!memoryStore.rooms.has(roomId)) {
+    memoryStore.rooms.set(roomId, { meta: null, messages: [], sentiment: [], ghosts: [] });
+  }
+  return memoryStore.rooms.get(roomId);
+}
+
+function pushBounded(list, item, max) {
+  list.push(item);
+  while (list.length > max) list.shift();
+}
+
+/**
+ * Connect to Redis if configured. Resolves once connected or once we've fallen back to memory,
+ * so callers can rehydrate state before accepting connections.
+ * @returns {Promise<import("ioredis").default | null>}
+ */
+async function initRedis() {
   if (!REDIS_URL) {
     console.log("[Redis] No REDIS_URL configured, using in-memory storage");
     return null;
@@ -53,7 +98,7 @@ function initRedis() {
       isRedisAvailable = false;
     });
 
-    redis.connect().catch((err) => {
+    await redis.connect().catch((err) => {
       console.warn("[Redis] Failed to connect:", err.message);
       isRedisAvailable = false;
     });
@@ -65,96 +110,342 @@ function initRedis() {
   }
 }
 
-async function getMessages(maxMessages = 3) {
+/**
+ * Persist room metadata (title, secret, timestamps)
+ * @param {{ id: string, title: string, secret: boolean, createdAt: number, lastActivity: number, lastMessageTs: number }} meta
+ */
+async function saveRoom(meta) {
+  if (isRedisAvailable && redis) {
+    try {
+      await redis.multi().set(roomKey(meta.id), JSON.stringify(meta)).sadd(ROOMS_KEY, meta.id).exec();
+      return;
+    } catch (err) {
+      console.error("[Redis] saveRoom error:", err.message);
+    }
+  }
+  memoryRoom(meta.id).meta = { ...meta };
+}
+
+async function deleteRoom(roomId) {
+  if (isRedisAvailable && redis) {
+    try {
+      await redis
+        .multi()
+        .del(roomKey(roomId), roomKey(roomId, "messages"), roomKey(roomId, "sentiment"), roomKey(roomId, "ghosts"))
+        .srem(ROOMS_KEY, roomId)
+        .exec();
+      return;
+    } catch (err) {
+      console.error("[Redis] deleteRoom error:", err.message);
+    }
+  }
+  memoryStore.rooms.delete(roomId);
+}
+
+/**
+ * Load every persisted room with its stream state
+ * @returns {Promise<Array<{ meta: object, messages: object[], sentiment: number[], ghosts: object[] }>>}
+ */
+async function loadRooms() {
+  if (isRedisAvailable && redis) {
+    try {
+      const roomIds = await redis.smembers(ROOMS_KEY);
+      const loaded = [];
+      for (const roomId of roomIds) {
+        const [[, meta], [, messages], [, sentiment], [, ghosts]] = await redis
+          .multi()
+          .get(roomKey(roomId))
+          .lrange(roomKey(roomId, "messages"), 0, -1)
+          .lrange(roomKey(roomId, "sentiment"), 0, -1)
+          .lrange(roomKey(roomId, "ghosts"), 0, -1)
+          .exec();
+        if (!meta) {
+          // Index entry without metadata - stale, drop it
+          await redis.srem(ROOMS_KEY, roomId);
+          continue;
+        }
+        loaded.push({
+          meta: JSON.parse(meta),
+          messages: messages.map((m) => JSON.parse(m)),
+          sentiment: sentiment.map((s) => parseFloat(s)),
+          ghosts: ghosts.map((g) => JSON.parse(g)),
+        });
+      }
+      return loaded;
+    } catch (err) {
+      console.error("[Redis] loadRooms error:", err.message);
+    }
+  }
+  return [...memoryStore.rooms.values()]
+    .filter((r) => r.meta)
+    .map((r) => ({ meta: { ...r.meta }, messages: [...r.messages], sentiment: [...r.sentiment], ghosts: [...r.ghosts] }));
+}
+
+async function getMessages(roomId, maxMessages = 3) {
   if (isRedisAvailable && redis) {
     try {
-      const messages = await redis.lrange(MESSAGES_KEY, -maxMessages, -1);
+      const messages = await redis.lrange(roomKey(roomId, "messages"), -maxMessages, -1);
       return messages.map((m) => JSON.parse(m));
     } catch (err) {
       console.error("[Redis] getMessages error:", err.message);
     }
   }
-  return memoryStore.messages.slice(-maxMessages);
+  return memoryRoom(roomId).messages.slice(-maxMessages);
 }
 
-async function addMessage(message, maxMessages = 3) {
+async function addMessage(roomId, message, maxMessages = 3) {
   if (isRedisAvailable && redis) {
     try {
-      await redis.rpush(MESSAGES_KEY, JSON.stringify(message));
-      await redis.ltrim(MESSAGES_KEY, -maxMessages, -1);
-      await redis.expire(MESSAGES_KEY, MESSAGE_TTL);
+      const key = roomKey(roomId, "messages");
+      await redis.multi().rpush(key, JSON.stringify(message)).ltrim(key, -maxMessages, -1).expire(key, MESSAGE_TTL).exec();
       return;
     } catch (err) {
       console.error("[Redis] addMessage error:", err.message);
     }
   }
   // Fallback to memory
-  memoryStore.messages.push(message);
-  if (memoryStore.messages.length > maxMessages) {
-    memoryStore.messages.shift();
+  pushBounded(memoryRoom(roomId).messages, message, maxMessages);
+}
+
+async function clearMessages(roomId) {
+  if (isRedisAvailable && redis) {
+    try {
+      await redis.del(roomKey(roomId, "messages"));
+      return;
+    } catch (err) {
+      console.error("[Redis] clearMessages error:", err.message);
+    }
   }
+  memoryRoom(roomId).messages = [];
 }
 
-async function updateMessagesByColor(color, updates) {
+// Rewrite the stored messages matching a predicate
+async function updateMessagesWhere(roomId, predicate, updates, label) {
   if (isRedisAvailable && redis) {
     try {
-      const messages = await redis.lrange(MESSAGES_KEY, 0, -1);
+      const key = roomKey(roomId, "messages");
+      const messages = await redis.lrange(key, 0, -1);
       const updated = messages.map((m) => {
         const msg = JSON.parse(m);
-        if (msg.color === color) {
+        if (predicate(msg)) {
           return JSON.stringify({ ...msg, ...updates });
         }
         return m;
       });
-      await redis.del(MESSAGES_KEY);
+      const tx = redis.multi().del(key);
       if (updated.length > 0) {
-        await redis.rpush(MESSAGES_KEY, ...updated);
-        await redis.expire(MESSAGES_KEY, MESSAGE_TTL);
+        tx.rpush(key, ...updated).expire(key, MESSAGE_TTL);
       }
+      await tx.exec();
       return;
     } catch (err) {
-      console.error("[Redis] updateMessagesByColor error:", err.message);
+      console.error(`[Redis] ${label} error:`, err.message);
     }
   }
   // Fallback to memory
-  for (const msg of memoryStore.messages) {
-    if (msg.color === color) {
+  for (const msg of memoryRoom(roomId).messages) {
+    if (predicate(msg)) {
       Object.assign(msg, updates);
     }
   }
 }
 
-async function getSentimentHistory(maxHistory = 5) {
+async function updateMessagesByColor(roomId, color, updates) {
+  await updateMessagesWhere(roomId, (msg) => msg.color === color, updates, "updateMessagesByColor");
+}
+
+async function updateMessage(roomId, messageId, updates) {
+  await updateMessagesWhere(roomId, (msg) => msg.id === messageId, updates, "updateMessage");
+}
+
+async function getSentimentHistory(roomId, maxHistory = 5) {
   if (isRedisAvailable && redis) {
     try {
-      const history = await redis.lrange(SENTIMENT_KEY, -maxHistory, -1);
+      const history = await redis.lrange(roomKey(roomId, "sentiment"), -maxHistory, -1);
       return history.map((s) => parseFloat(s));
     } catch (err) {
       console.error("[Redis] getSentimentHistory error:", err.message);
     }
   }
-  return memoryStore.sentiment.slice(-maxHistory);
+  return memoryRoom(roomId).sentiment.slice(-maxHistory);
 }
 
-async function addSentiment(score, maxHistory = 5) {
+async function addSentiment(roomId, score, maxHistory = 5) {
   if (isRedisAvailable && redis) {
     try {
-      await redis.rpush(SENTIMENT_KEY, score.toString());
-      await redis.ltrim(SENTIMENT_KEY, -maxHistory, -1);
-      await redis.expire(SENTIMENT_KEY, MESSAGE_TTL);
+      const key = roomKey(roomId, "sentiment");
+      await redis.multi().rpush(key, score.toString()).ltrim(key, -maxHistory, -1).expire(key, MESSAGE_TTL).exec();
       return;
     } catch (err) {
       console.error("[Redis] addSentiment error:", err.message);
     }
   }
   // Fallback to memory
-  memoryStore.sentiment.push(score);
-  if (memoryStore.sentiment.length > maxHistory) {
-    memoryStore.sentiment.shift();
+  pushBounded(memoryRoom(roomId).sentiment, score, maxHistory);
+}
+
+/**
+ * Replace a room's presence ghosts (the list is small and pruned by the server)
+ * @param {string} roomId
+ * @param {Array<{ color: string, handle: string | null, leftAt: number }>} ghosts
+ */
+async function setGhosts(roomId, ghosts) {
+  if (isRedisAvailable && redis) {
+    try {
+      const key = roomKey(roomId, "ghosts");
+      const tx = redis.multi().del(key);
+      if (ghosts.length > 0) {
+        tx.rpush(key, ...ghosts.map((g) => JSON.stringify(g))).expire(key, MESSAGE_TTL);
+      }
+      await tx.exec();
+      return;
+    } catch (err) {
+      console.error("[Redis] setGhosts error:", err.message);
+    }
+  }
+  memoryRoom(roomId).ghosts = ghosts.map((g) => ({ ...g }));
+}
+
+/**
+ * Persist a ban record (see lib/bans.js); expiry is enforced by the registry, not by Redis
+ * @param {{ id: string }} ban
+ */
+async function saveBan(ban) {
+  if (isRedisAvailable && redis) {
+    try {
+      await redis.hset(BANS_KEY, ban.id, JSON.stringify(ban));
+      return;
+    } catch (err) {
+      console.error("[Redis] saveBan error:", err.message);
+    }
+  }
+  memoryStore.bans.set(ban.id, { ...ban });
+}
+
+async function deleteBan(banId) {
+  if (isRedisAvailable && redis) {
+    try {
+      await redis.hdel(BANS_KEY, banId);
+      return;
+    } catch (err) {
+      console.error("[Redis] deleteBan error:", err.message);
+    }
+  }
+  memoryStore.bans.delete(banId);
+}
+
+async function getBans() {
+  if (isRedisAvailable && redis) {
+    try {
+      const bans = await redis.hvals(BANS_KEY);
+      return bans.map((b) => JSON.parse(b));
+    } catch (err) {
+      console.error("[Redis] getBans error:", err.message);
+    }
+  }
+  return [...memoryStore.bans.values()].map((b) => ({ ...b }));
+}
+
+/**
+ * Persist a message report (see lib/reports.js)
+ * @param {{ id: string }} report
+ */
+async function saveReport(report) {
+  if (isRedisAvailable && redis) {
+    try {
+      await redis.hset(REPORTS_KEY, report.id, JSON.stringify(report));
+      return;
+    } catch (err) {
+      console.error("[Redis] saveReport error:", err.message);
+    }
+  }
+  memoryStore.reports.set(report.id, JSON.parse(JSON.stringify(report)));
+}
+
+async function deleteReport(reportId) {
+  if (isRedisAvailable && redis) {
+    try {
+      await redis.hdel(REPORTS_KEY, reportId);
+      return;
+    } catch (err) {
+      console.error("[Redis] deleteReport error:", err.message);
+    }
+  }
+  memoryStore.reports.delete(reportId);
+}
+
+async function getReports() {
+  if (isRedisAvailable && redis) {
+    try {
+      const reports = await redis.hvals(REPORTS_KEY);
+      return reports.map((r) => JSON.parse(r));
+    } catch (err) {
+      console.error("[Redis] getReports error:", err.message);
+    }
+  }
+  return [...memoryStore.reports.values()].map((r) => JSON.parse(JSON.stringify(r)));
+}
+
+/**
+ * Keep a disconnected client's session so a reconnect (on any node) can resume it
+ * @param {string} clientId
+ * @param {{ color: string, handle: string | null, tag: string | null, sigil: string, room: string, steppingAway: boolean }} session
+ * @param {number} ttlMs
+ */
+async function saveSession(clientId, session, ttlMs) {
+  if (isRedisAvailable && redis) {
+    try {
+      await redis.set(`${KEY_PREFIX}:session:${clientId}`, JSON.stringify(session), "PX", ttlMs);
+      return;
+    } catch (err) {
+      console.error("[Redis] saveSession error:", err.message);
+    }
+  }
+  memoryStore.sessions.set(clientId, { session: { ...session }, expiresAt: Date.now() + ttlMs });
+}
+
+/**
+ * Fetch and remove a session in one step, so only one reconnect (or the expiry) can claim it
+ * @param {string} clientId
+ * @returns {Promise<object | null>}
+ */
+async function takeSession(clientId) {
+  if (isRedisAvailable && redis) {
+    try {
+      const key = `${KEY_PREFIX}:session:${clientId}`;
+      const [[, session]] = await redis.multi().get(key).del(key).exec();
+      return session ? JSON.parse(session) : null;
+    } catch (err) {
+      console.error("[Redis] takeSession error:", err.message);
+    }
   }
+  const entry = memoryStore.sessions.get(clientId);
+  memoryStore.sessions.delete(clientId);
+  return entry && entry.expiresAt > Date.now() ? entry.session : null;
+}
+
+/**
+ * Publisher/subscriber pair for @socket.io/redis-adapter.
+ * Returns null when Redis is unavailable so the server stays single-node.
+ * @returns {{ pubClient: object, subClient: object } | null}
+ */
+function createAdapterClients() {
+  if (!isRedisAvailable || !redis) return null;
+  subscriber = redis.duplicate();
+  subscriber.on("error", (err) => {
+    console.error("[Redis] Subscriber error:", err.message);
+  });
+  return { pubClient: redis, subClient: subscriber };
 }
 
 async function closeRedis() {
+  if (subscriber) {
+    try {
+      await subscriber.quit();
+    } catch (err) {
+      console.error("[Redis] Error closing subscriber:", err.message);
+    }
+  }
   if (redis) {
     try {
       await redis.quit();
@@ -164,17 +455,140 @@ async function closeRedis() {
   }
 }
 
+/**
+ * Record a strike and count the ones still inside the decay window (see lib/strikes.js)
+ * @param {string} key e.g. "client:<clientId>" or "ip:<ip>"
+ * @param {number} decayMs
+ * @returns {Promise<number>} live strikes for the key, including this one
+ */
+async function addStrike(key, decayMs) {
+  const now = Date.now();
+  if (isRedisAvailable && redis) {
+    try {
+      const strikeKey = `${KEY_PREFIX}:strikes:${key}`;
+      const results = await redis
+        .multi()
+        .zremrangebyscore(strikeKey, 0, now - decayMs)
+        .zadd(strikeKey, now, `${now}-${Math.random().toString(36).slice(2, 8)}`)
+        .zcard(strikeKey)
+        .pexpire(strikeKey, decayMs)
+        .exec();
+      return results[2][1];
+    } catch (err) {
+      console.error("[Redis] addStrike error:", err.message);
+    }
+  }
+  const live = (memoryStore.strikes.get(key) || []).filter((ts) => ts > now - decayMs);
+  live.push(now);
+  memoryStore.strikes.set(key, live);
+  return live.length;
+}
+
+/**
+ * Forget every strike for a key
+ * @param {string} key
+ */
+async function clearStrikes(key) {
+  if (isRedisAvailable && redis) {
+    try {
+      await redis.del(`${KEY_PREFIX}:strikes:${key}`);
+      return;
+    } catch (err) {
+      console.error("[Redis] clearStrikes error:", err.message);
+    }
+  }
+  memoryStore.strikes.delete(key);
+}
+
+/**
+ * Note a clientId as seen and return when it was first seen
+ * @param {string} clientId
+ * @returns {Promise<number>} first-seen time (ms); now, for a clientId never seen before
+ */
+async function touchClient(clientId) {
+  const now = Date.now();
+  if (isRedisAvailable && redis) {
+    try {
+      const clientKey = `${KEY_PREFIX}:client:${clientId}`;
+      const results = await redis
+        .multi()
+        .set(clientKey, String(now), "PX", CLIENT_SEEN_TTL_MS, "NX")
+        .get(clientKey)
+        .pexpire(clientKey, CLIENT_SEEN_TTL_MS)
+        .exec();
+      return Number(results[1][1]) || now;
+    } catch (err) {
+      console.error("[Redis] touchClient error:", err.message);
+    }
+  }
+  if (!memoryStore.clients.has(clientId)) {
+    memoryStore.clients.set(clientId, now);
+    // Insertion order is first-seen order, so the oldest entries go first
+    for (const oldest of memoryStore.clients.keys()) {
+      if (memoryStore.clients.size <= MAX_MEMORY_CLIENTS) break;
+      memoryStore.clients.delete(oldest);
+    }
+  }
+  return memoryStore.clients.get(clientId);
+}
+
+/**
+ * Count one use of an invite, unless it has none left
+ * @param {string} inviteId
+ * @param {number} maxUses
+ * @param {number} expiresAt when the invite expires (ms); the count is kept until then
+ * @returns {Promise<boolean>} whether this use was allowed
+ */
+async function useInvite(inviteId, maxUses, expiresAt) {
+  if (isRedisAvailable && redis) {
+    try {
+      const inviteKey = `${KEY_PREFIX}:invite:${inviteId}`;
+      const results = await redis.multi().incr(inviteKey).pexpireat(inviteKey, expiresAt).exec();
+      return Number(results[0][1]) <= maxUses;
+    } catch (err) {
+      console.error("[Redis] useInvite error:", err.message);
+    }
+  }
+  const now = Date.now();
+  for (const [id, entry] of memoryStore.invites) {
+    if (entry.expiresAt <= now) memoryStore.invites.delete(id);
+  }
+  const entry = memoryStore.invites.get(inviteId) || { uses: 0, expiresAt };
+  entry.uses++;
+  memoryStore.invites.set(inviteId, entry);
+  return entry.uses <= maxUses;
+}
+
 function isAvailable() {
   return isRedisAvailable;
 }
 
 module.exports = {
   initRedis,
+  saveRoom,
+  deleteRoom,
+  loadRooms,
   getMessages,
   addMessage,
+  clearMessages,
   updateMessagesByColor,
+  updateMessage,
   getSentimentHistory,
   addSentiment,
+  setGhosts,
+  saveBan,
+  deleteBan,
+  getBans,
+  saveSession,
+  takeSession,
+  addStrike,
+  clearStrikes,
+  touchClient,
+  useInvite,
+  saveReport,
+  deleteReport,
+  getReports,
+  createAdapterClients,
   closeRedis,
   isAvailable,
 };
@@ -0,0 +1,190 @@
+/**
+ * Witch@ Message Reports
+ *
+ * - A user reports a message with a reason; reports of the same message in the same room gather in one entry
+ * - Reporters who share neither a clientId nor an IP with an earlier one are independent; once enough
+ *   independent reports come in, the message is hidden until an operator reviews it
+ * - Only reports of a message the server found (verified) can hide it; the rest, with the reporter's
+ *   copy of the text, wait in the queue for an operator
+ * - Operators review and resolve reports through the admin API (dismiss, hide, or ban the author);
+ *   resolved reports are kept for a week, then dropped
+ * - Stored through lib/redis (Redis with in-memory fallback); reads hit a per-node cache
+ */
+
+const redis = require('./redis');
+
+/**
+ * @typedef {{ ip: string | null, clientId: string | null, color: string, reason: string, ts: number }} Reporter
+ * @typedef {{
+ *   id: string,
+ *   roomId: string,
+ *   messageId: string,
+ *   text: string,
+ *   verified: boolean,
+ *   author: { color: string, handle: string | null, ip: string | null, clientId: string | null } | null,
+ *   reporters: Reporter[],
+ *   status: 'open' | 'hidden' | 'resolved',
+ *   createdAt: number,
+ *   updatedAt: number,
+ *   resolution: { action: 'dismiss' | 'hide' | 'ban', note: string | null, by: string, ts: number } | null,
+ * }} Report
+ */
+
+const DEFAULT_HIDE_THRESHOLD = 3;
+const RESOLVED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const ACTIONS = ['dismiss', 'hide', 'ban'];
+
+/** @type {Map<string, Report>} */
+const cache = new Map(); // reportId -> report
+let hideThreshold = DEFAULT_HIDE_THRESHOLD;
+
+/**
+ * Set how many independent reports hide a message
+ * @param {{ hideThreshold?: number }} options
+ */
+function configure(options) {
+  if (Number.isInteger(options.hideThreshold) && options.hideThreshold > 0) hideThreshold = options.hideThreshold;
+}
+
+function getHideThreshold() {
+  return hideThreshold;
+}
+
+/**
+ * Load persisted reports into the cache
+ * @returns {Promise<number>} number of unresolved reports
+ */
+async function loadReports() {
+  cache.clear();
+  for (const report of await redis.getReports()) cache.set(report.id, report);
+  return listReports().length;
+}
+
+const sameSource = (a, b) => (a.clientId && a.clientId === b.clientId) || (a.ip && a.ip === b.ip);
+
+/**
+ * Reporters that count toward auto-hide: each shares no clientId or IP with any counted before it
+ * @param {Report} report
+ * @returns {number}
+ */
+function independentCount(report) {
+  const counted = [];
+  for (const reporter of report.reporters) {
+    if (!counted.some((c) => sameSource(c, reporter))) counted.push(reporter);
+  }
+  return counted.length;
+}
+
+/**
+ * Record a report of a message, hiding it once enough independent reports are in and the server has seen it
+ * @param {{ roomId: string, messageId: string, text: string, verified: boolean, author: Report['author'], reporter: Omit<Reporter, 'ts'> }} filing
+ * @returns {{ report: Report, duplicate: boolean, hidden: boolean }}
+ *   duplicate: this clientId (or, without one, this IP) already reported the message; nothing changed.
+ *   hidden: this report is the one that hid the message
+ */
+function fileReport({ roomId, messageId, text, verified, author, reporter }) {
+  const now = Date.now();
+  let report = [...cache.values()].find((r) => r.roomId === roomId && r.messageId === messageId && r.status !== 'resolved');
+  if (report) {
+    const duplicate = report.reporters.some((r) =>
+      (reporter.clientId ? r.clientId === reporter.clientId : !r.clientId && r.ip === reporter.ip));
+    if (duplicate) return { report, duplicate: true, hidden: false };
+    // The server found the message this time: the report now rests on its text, not a reporter's copy
+    if (verified && !report.verified) Object.assign(report, { text, verified, author });
+  } else {
+    report = {
+      id: `report-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      roomId,
+      messageId,
+      text,
+      verified,
+      author,
+      reporters: [],
+      status: 'open',
+      createdAt: now,
+      updatedAt: now,
+      resolution: null,
+    };
+  }
+
+  report.reporters.push({ ...reporter, ts: now });
+  report.updatedAt = now;
+  const hidden = report.status === 'open' && report.verified && independentCount(report) >= hideThreshold;
+  if (hidden) report.status = 'hidden';
+  cache.set(report.id, report);
+  redis.saveReport(report);
+  return { report, duplicate: false, hidden };
+}
+
+/**
+ * @param {string} reportId
+ * @returns {Report | null}
+ */
+function getReport(reportId) {
+  return cache.get(reportId) || null;
+}
+
+/**
+ * Reports, oldest first; unresolved ones (open and hidden) unless a status is given
+ * @param {{ status?: string, roomId?: string }} [filter]
+ * @returns {Report[]}
+ */
+function listReports({ status, roomId } = {}) {
+  return [...cache.values()]
+    .filter((r) => (status ? r.status === status : r.status !== 'resolved'))
+    .filter((r) => !roomId || r.roomId === roomId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Close a report; carrying out the action (restoring, hiding, banning) is the caller's job
+ * @param {string} reportId
+ * @param {{ action: 'dismiss' | 'hide' | 'ban', note?: string | null, by: string }} resolution
+ * @returns {Report | null} the resolved report, or null if there is none
+ */
+function resolveReport(reportId, { action, note = null, by }) {
+  const report = cache.get(reportId);
+  if (!report) return null;
+  const now = Date.now();
+  report.status = 'resolved';
+  report.resolution = { action, note, by, ts: now };
+  report.updatedAt = now;
+  redis.saveReport(report);
+  return report;
+}
+
+/**
+ * Drop resolved reports older than the retention window
+ * @returns {number} how many were dropped
+ */
+function pruneResolved() {
+  const cutoff = Date.now() - RESOLVED_RETENTION_MS;
+  let pruned = 0;
+  for (const report of cache.values()) {
+    if (report.status === 'resolved' && report.updatedAt < cutoff) {
+      cache.delete(report.id);
+      redis.deleteReport(report.id);
+      pruned++;
+    }
+  }
+  return pruned;
+}
+
+// Mirror a report filed or resolved on another node (it already persisted the change)
+function applyRemoteReport(report) {
+  cache.set(report.id, report);
+}
+
+module.exports = {
+  ACTIONS,
+  configure,
+  getHideThreshold,
+  loadReports,
+  independentCount,
+  fileReport,
+  getReport,
+  listReports,
+  resolveReport,
+  pruneResolved,
+  applyRemoteReport,
+};
@@ -0,0 +1,168 @@
+/**
+ * Witch@ Secret Room Access
+ *
+ * - Public rooms are open to everyone; a secret room is entered with its passphrase (if it has one),
+ *   an invite, or a pass from an earlier visit. Moderators get in regardless (checked by the caller)
+ * - Passphrases are kept as salted scrypt hashes in the room's metadata, never in the clear; hashing runs
+ *   off the event loop, so a stream of passphrase attempts can't stall the server
+ * - Invites are signed tokens naming the room, when they expire and how many times they can be used;
+ *   only the use count is stored (lib/redis), so every node can check an invite
+ * - A pass is a signed token handed to a client once they're in, so they aren't asked again on reconnect
+ * - Tokens are bound to one room instance (id + creation time) and its access epoch: deleting the room
+ *   or bumping the epoch (new passphrase) voids every invite and pass issued for it
+ */
+
+const crypto = require('crypto');
+const { promisify } = require('util');
+const redis = require('./redis');
+
+const scrypt = promisify(crypto.scrypt);
+
+const DEFAULT_INVITE_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_INVITE_USES = 10;
+const MAX_INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_INVITE_USES = 100;
+const PASS_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const SCRYPT_KEY_LENGTH = 32;
+
+let signingKey = crypto.randomBytes(32);
+
+/**
+ * @typedef {{ id: string, createdAt: number, secret: boolean, passphrase: string | null, accessEpoch: number }} AccessRoom
+ *   the parts of a room access depends on; passphrase is the stored hash
+ * @typedef {{ clientId?: string | null, passphrase?: string, invite?: string, pass?: string }} Credentials
+ * @typedef {{ ok: true, pass: string | null, via: 'public' | 'pass' | 'invite' | 'passphrase' }
+ *   | { ok: false, reason: string, needsPassphrase: boolean }} AccessResult
+ */
+
+/**
+ * Set the key invites and passes are signed with. Without one, a random key is used: tokens then stop
+ * working on restart and aren't accepted by other nodes
+ * @param {{ secret?: string, logger: { warn: Function } }} options
+ */
+function configure({ secret, logger }) {
+  if (secret) {
+    signingKey = crypto.createHash('sha256').update(secret).digest();
+  } else {
+    logger.warn('INVITE_SECRET not set: invites and room passes only last until restart and only work on this node');
+  }
+}
+
+/**
+ * @param {string} passphrase
+ * @returns {Promise<string>} "scrypt$<salt>$<hash>", for the room's metadata
+ */
+async function hashPassphrase(passphrase) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = /** @type {Buffer} */ (await scrypt(passphrase, salt, SCRYPT_KEY_LENGTH)).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+/**
+ * @param {string} stored from hashPassphrase
+ * @param {string} given
+ * @returns {Promise<boolean>}
+ */
+async function checkPassphrase(stored, given) {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = /** @type {Buffer} */ (await scrypt(given, salt, expected.length));
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+// Tokens: base64url(JSON payload) "." base64url(HMAC of the payload part)
+function sign(payload) {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const mac = crypto.createHmac('sha256', signingKey).update(body).digest('base64url');
+  return `${body}.${mac}`;
+}
+
+function verify(token) {
+  if (typeof token !== 'string') return null;
+  const [body, mac] = token.split('.');
+  if (!body || !mac) return null;
+  const expected = crypto.createHmac('sha256', signingKey).update(body).digest();
+  const given = Buffer.from(mac, 'base64url');
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return null;
+  try {
+    return JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+// Whether a token's room binding matches the room as it is now
+const boundTo = (payload, room) => payload.r === room.id && payload.t === room.createdAt && payload.v === room.accessEpoch;
+
+/**
+ * Sign an invite to a room
+ * @param {AccessRoom} room
+ * @param {{ ttlMs?: number, maxUses?: number }} [limits] clamped to a week and 100 uses
+ * @returns {{ token: string, expiresAt: number, maxUses: number }}
+ */
+function createInvite(room, { ttlMs = DEFAULT_INVITE_TTL_MS, maxUses = DEFAULT_INVITE_USES } = {}) {
+  const expiresAt = Date.now() + Math.min(ttlMs, MAX_INVITE_TTL_MS);
+  const uses = Math.min(Math.max(1, maxUses), MAX_INVITE_USES);
+  const id = crypto.randomBytes(9).toString('base64url');
+  return {
+    token: sign({ k: 'invite', r: room.id, t: room.createdAt, v: room.accessEpoch, n: id, e: expiresAt, u: uses }),
+    expiresAt,
+    maxUses: uses,
+  };
+}
+
+/**
+ * Sign a pass for a client already let into a room
+ * @param {AccessRoom} room
+ * @param {string} clientId
+ * @returns {string}
+ */
+function createPass(room, clientId) {
+  return sign({ k: 'pass', r: room.id, t: room.createdAt, v: room.accessEpoch, c: clientId, e: Date.now() + PASS_TTL_MS });
+}
+
+/**
+ * Decide whether someone may enter a room. A good invite uses up one of its uses; a good invite or
+ * passphrase earns a pass when there's a clientId to tie it to
+ * @param {AccessRoom} room
+ * @param {Credentials} credentials
+ * @returns {Promise<AccessResult>}
+ */
+async function checkAccess(room, { clientId = null, passphrase, invite, pass }) {
+  if (!room.secret) return { ok: true, pass: null, via: 'public' };
+  const now = Date.now();
+  const issuePass = () => (clientId ? createPass(room, clientId) : null);
+
+  const held = pass ? verify(pass) : null;
+  if (held && held.k === 'pass' && boundTo(held, room) && held.c === clientId && held.e > now) {
+    return { ok: true, pass: null, via: 'pass' };
+  }
+
+  const invited = invite ? verify(invite) : null;
+  if (invited && invited.k === 'invite' && boundTo(invited, room) && invited.e > now) {
+    if (await redis.useInvite(invited.n, invited.u, invited.e)) return { ok: true, pass: issuePass(), via: 'invite' };
+    return { ok: false, reason: 'That invite has been used up', needsPassphrase: !!room.passphrase };
+  }
+
+  if (room.passphrase && passphrase) {
+    if (await checkPassphrase(room.passphrase, passphrase)) return { ok: true, pass: issuePass(), via: 'passphrase' };
+    return { ok: false, reason: 'Wrong passphrase', needsPassphrase: true };
+  }
+
+  if (invite) return { ok: false, reason: 'That invite has expired or is no longer valid', needsPassphrase: !!room.passphrase };
+  return room.passphrase
+    ? { ok: false, reason: 'This room needs a passphrase', needsPassphrase: true }
+    : { ok: false, reason: 'This room is invite only', needsPassphrase: false };
+}
+
+module.exports = {
+  DEFAULT_INVITE_TTL_MS,
+  DEFAULT_INVITE_USES,
+  configure,
+  hashPassphrase,
+  checkPassphrase,
+  createInvite,
+  createPass,
+  checkAccess,
+};
@@ -0,0 +1,34 @@
+/**
+ * Room previews for the /r/[roomId] pages, fetched from the Socket server while rendering on the server.
+ * Set SOCKET_SERVER_URL when the Next server reaches the Socket server somewhere other than NEXT_PUBLIC_SOCKET_URL.
+ */
+
+import type { RoomPreview } from "@/lib/protocol";
+
+const PREVIEW_TIMEOUT_MS = 2000;
+
+// found: false means the Socket server has no such public room (secret ones look missing); null means it couldn't be asked
+export type RoomLookup = { found: true; room: RoomPreview } | { found: false } | null;
+
+function getSocketServerUrl(): string {
+  return process.env.SOCKET_SERVER_URL || process.env.NEXT_PUBLIC_SOCKET_URL || "http://localhost:4001";
+}
+
+// Same normalization as the Socket server's room ids: lowercase letters, digits and hyphens, 32 at most
+export function normalizeRoomId(roomId: string): string {
+  return roomId.toLowerCase().trim().replace(/[^a-z0-9-]/g, "").slice(0, 32);
+}
+
+export async function lookupRoom(roomId: string): Promise<RoomLookup> {
+  try {
+    const res = await fetch(`${getSocketServerUrl()}/rooms/${encodeURIComponent(roomId)}`, {
+      cache: "no-store",
+      signal: AbortSignal.timeout(PREVIEW_TIMEOUT_MS),
+    });
+    if (res.status === 404) return { found: false };
+    if (!res.ok) return null;
+    return { found: true, room: (await res.json()) as RoomPreview };
+  } catch {
+    return null;
+  }
+}
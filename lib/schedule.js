@@ -0,0 +1,199 @@
+/**
+ * Witch@ Room Schedules
+ *
+ * - A room can keep opening hours: a daily window, a window on chosen weekdays, or a one-off start and end
+ * - Times are wall-clock times in the schedule's own IANA time zone, so "20:00-23:00 Europe/Berlin"
+ *   follows Berlin through daylight saving changes
+ * - A window whose close is at or before its open runs past midnight (22:00-02:00 closes the next day)
+ * - Everything here is pure: callers pass the time, and the room keeps the normalized schedule in its metadata
+ */
+
+const KINDS = ['daily', 'weekly', 'once'];
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6]; // Sunday first, as Date#getDay
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATETIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T([01]\d|2[0-3]):([0-5]\d)$/;
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * @typedef {{ kind: 'daily' | 'weekly', days: number[], open: string, close: string, timeZone: string }
+ *   | { kind: 'once', start: string, end: string, startsAt: number, endsAt: number, timeZone: string }} Schedule
+ * @typedef {{ open: boolean, opensAt: number | null, closesAt: number | null }} ScheduleStatus
+ *   opensAt is null while open and once a one-off window has passed; closesAt is null while closed
+ */
+
+/** @type {Map<string, Intl.DateTimeFormat>} */
+const formatters = new Map();
+
+function formatterFor(timeZone) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * @param {string} timeZone
+ * @returns {boolean} whether the runtime knows the zone
+ */
+function isTimeZone(timeZone) {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock fields of an instant in a zone
+function localParts(ts, timeZone) {
+  const parts = {};
+  for (const { type, value } of formatterFor(timeZone).formatToParts(ts)) parts[type] = Number(value);
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+// How far the zone's wall clock is ahead of UTC at an instant, in ms
+function zoneOffset(ts, timeZone) {
+  const p = localParts(ts, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - Math.floor(ts / MINUTE_MS) * MINUTE_MS;
+}
+
+// The instant a wall-clock time happens in a zone. Times skipped by a DST jump land just after it
+function zonedToUtc(year, month, day, hour, minute, timeZone) {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  const guess = wall - zoneOffset(wall, timeZone);
+  const offset = zoneOffset(guess, timeZone);
+  return wall - offset;
+}
+
+const minutesOf = (time) => {
+  const [, h, m] = TIME_PATTERN.exec(time);
+  return Number(h) * 60 + Number(m);
+};
+
+/**
+ * Check a schedule from a client and bring it to the stored shape
+ * @param {{ kind: string, days?: number[], open?: string, close?: string, start?: string, end?: string, timeZone: string }} input
+ *   already structurally validated (lib/validation)
+ * @param {number} [now]
+ * @returns {Schedule}
+ * @throws {Error} with a message fit to show the user
+ */
+function normalize(input, now = Date.now()) {
+  const { kind, timeZone } = input;
+  if (!KINDS.includes(kind)) throw new Error(`Schedule kind must be one of ${KINDS.join(', ')}`);
+  if (!isTimeZone(timeZone)) throw new Error(`Unknown time zone "${timeZone}"`);
+
+  if (kind === 'once') {
+    const start = DATETIME_PATTERN.exec(input.start || '');
+    const end = DATETIME_PATTERN.exec(input.end || '');
+    if (!start || !end) throw new Error('A one-off schedule needs a start and end like 2025-06-01T20:00');
+    const [startsAt, endsAt] = [start, end].map(([, y, mo, d, h, mi]) =>
+      zonedToUtc(Number(y), Number(mo), Number(d), Number(h), Number(mi), timeZone));
+    if (endsAt <= startsAt) throw new Error('The schedule has to end after it starts');
+    if (endsAt <= now) throw new Error('That window has already passed');
+    return { kind, start: input.start, end: input.end, startsAt, endsAt, timeZone };
+  }
+
+  if (!TIME_PATTERN.test(input.open || '') || !TIME_PATTERN.test(input.close || '')) {
+    throw new Error('Opening and closing times look like 20:00');
+  }
+  if (input.open === input.close) throw new Error('Opening and closing times can\'t be the same');
+  const days = kind === 'daily' ? ALL_DAYS : [...new Set(input.days || [])].sort((a, b) => a - b);
+  if (days.length === 0) throw new Error('Pick at least one day');
+  return { kind, days, open: input.open, close: input.close, timeZone };
+}
+
+// Opening windows of a weekly schedule whose opening day falls within a day before to a week after now
+function weeklyWindows(schedule, now) {
+  const today = localParts(now, schedule.timeZone);
+  const open = minutesOf(schedule.open);
+  const close = minutesOf(schedule.close);
+  const windows = [];
+  for (let offset = -1; offset <= 7; offset++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    if (!schedule.days.includes(date.getUTCDay())) continue;
+    const [y, m, d] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+    const opensAt = zonedToUtc(y, m, d, Math.floor(open / 60), open % 60, schedule.timeZone);
+    const closesAt = zonedToUtc(y, m, d + (close <= open ? 1 : 0), Math.floor(close / 60), close % 60, schedule.timeZone);
+    windows.push({ opensAt, closesAt });
+  }
+  return windows;
+}
+
+/**
+ * Whether a schedule is open at a moment, and when that changes next
+ * @param {Schedule | null | undefined} schedule no schedule means always open
+ * @param {number} [now]
+ * @returns {ScheduleStatus}
+ */
+function status(schedule, now = Date.now()) {
+  if (!schedule) return { open: true, opensAt: null, closesAt: null };
+
+  if (schedule.kind === 'once') {
+    if (now < schedule.startsAt) return { open: false, opensAt: schedule.startsAt, closesAt: null };
+    if (now < schedule.endsAt) return { open: true, opensAt: null, closesAt: schedule.endsAt };
+    return { open: false, opensAt: null, closesAt: null };
+  }
+
+  const windows = weeklyWindows(schedule, now);
+  const current = windows.find((w) => w.opensAt <= now && now < w.closesAt);
+  if (current) {
+    // Back-to-back windows (22:00-02:00 every day, say) read as one long opening
+    let closesAt = current.closesAt;
+    for (const w of windows) {
+      if (w.opensAt <= closesAt && w.closesAt > closesAt) closesAt = w.closesAt;
+    }
+    return { open: true, opensAt: null, closesAt };
+  }
+  const next = windows.filter((w) => w.opensAt > now).sort((a, b) => a.opensAt - b.opensAt)[0];
+  return { open: false, opensAt: next ? next.opensAt : null, closesAt: null };
+}
+
+/**
+ * Rough length of a wait, for "opens in 2h"
+ * @param {number} ms
+ * @returns {string} e.g. "45m", "2h", "2h 30m", "3d"
+ */
+function describeWait(ms) {
+  const minutes = Math.max(1, Math.ceil(ms / MINUTE_MS));
+  if (minutes < 60) return `${minutes}m`;
+  if (ms < DAY_MS) {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    return hours < 3 && rest > 0 ? `${hours}h ${rest}m` : `${Math.round(minutes / 60)}h`;
+  }
+  return `${Math.round(ms / DAY_MS)}d`;
+}
+
+/**
+ * Why a closed room can't be entered
+ * @param {string} title
+ * @param {ScheduleStatus} current from status()
+ * @param {number} [now]
+ * @returns {string}
+ */
+function closedReason(title, current, now = Date.now()) {
+  if (current.opensAt === null) return `${title} has closed for good`;
+  return `${title} is closed, opens in ${describeWait(current.opensAt - now)}`;
+}
+
+module.exports = {
+  KINDS,
+  isTimeZone,
+  normalize,
+  status,
+  describeWait,
+  closedReason,
+};
@@ -4,6 +4,9 @@
  */
 
 import { io, Socket } from "socket.io-client";
+import type { ClientToServerEvents, ServerToClientEvents } from "@/lib/protocol";
+
+export type WitchSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 const SOCKET_PATH = "/api/socketio";
 
@@ -18,13 +21,13 @@ function getSocketUrl(): string {
   return window.location.origin;
 }
 
-let socket: Socket | null = null;
+let socket: WitchSocket | null = null;
 
-export function getSocket(): Socket | null {
+export function getSocket(): WitchSocket | null {
   return socket;
 }
 
-export function connectSocket(): Socket {
+export function connectSocket(): WitchSocket {
   if (socket?.connected) return socket;
   const url = getSocketUrl();
   if (typeof window !== "undefined" && process.env.NODE_ENV === "development") {
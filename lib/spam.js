@@ -0,0 +1,245 @@
+/**
+ * Witch@ Spam Scoring
+ *
+ * - Scores every message before it goes out: the sender repeating themselves (exact or near-duplicate),
+ *   the same line from several senders at once (copypasta), character floods, and bursts of
+ *   brand-new clientIds speaking in one room
+ * - Each sender's score builds with every spammy message and halves each minute. The score picks the action:
+ *   drop the message, throttle the sender to one message per interval, or shadow-mute them (their
+ *   messages only reach themselves)
+ * - State is in memory, per node: a burst lands on the node its sockets are on, and a restart forgets
+ *   everything, which only errs toward letting people talk
+ */
+
+const { foldText, collapseRepeats } = require('./normalize');
+
+const HALF_LIFE_MS = 60 * 1000;
+const SENDER_WINDOW_MS = 5 * 60 * 1000; // How far back the sender's own repeats count
+const SENDER_HISTORY = 8;
+const ROOM_WINDOW_MS = 60 * 1000; // How far back other senders' lines count as copypasta
+const ROOM_HISTORY = 50;
+const FRESH_CLIENT_MS = 10 * 60 * 1000; // A clientId first seen this recently is fresh
+const BURST_WINDOW_MS = 30 * 1000;
+const BURST_FRESH_SENDERS = 5; // Fresh senders in one room inside the burst window
+const NEAR_DUPLICATE = 0.8; // Bigram similarity from which two lines are "the same"
+const SHORT_TEXT = 8; // Short lines ("lol", "yes") repeat naturally: their repeats count half
+const THROTTLE_INTERVAL_MS = 10 * 1000;
+
+// Points each signal adds to the sender's score
+const SIGNALS = {
+  repeat: 35,
+  'near-repeat': 20,
+  copypasta: 30,
+  flood: 30,
+  'fresh-burst': 25,
+};
+
+// Most severe first; the first threshold the score reaches decides
+const THRESHOLDS = [
+  { action: 'shadow-mute', score: 100, durationMs: 10 * 60 * 1000 },
+  { action: 'throttle', score: 70, durationMs: 2 * 60 * 1000 },
+  { action: 'drop', score: 40 },
+];
+
+const senders = new Map(); // clientId (or IP) -> { score, scoredAt, history, throttledUntil, lastSentAt, shadowUntil, lastAction, signals }
+const rooms = new Map(); // roomId -> { history: [{ key, text, ts }], fresh: Map<key, ts> }
+
+// Lines compared as folded words, so case, accents, punctuation and stretched letters don't tell them apart
+function comparable(text) {
+  const words = collapseRepeats(foldText(text)).replace(/[^a-z0-9]+/g, ' ').trim();
+  return words || text.trim();
+}
+
+function bigrams(text) {
+  const grams = new Map();
+  for (let i = 0; i < text.length - 1; i++) {
+    const gram = text.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+}
+
+/**
+ * Dice coefficient over character bigrams: 1 for identical lines, 0 for nothing in common
+ * @param {string} a
+ * @param {string} b
+ * @returns {number}
+ */
+function similarity(a, b) {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const left = bigrams(a);
+  let shared = 0;
+  for (const [gram, count] of bigrams(b)) {
+    const available = left.get(gram) || 0;
+    shared += Math.min(available, count);
+  }
+  return (2 * shared) / (a.length - 1 + b.length - 1);
+}
+
+/**
+ * Character floods: one character held down, a handful of characters over a long line, or one word over and over
+ * @param {string} text
+ * @returns {boolean}
+ */
+function isFlood(text) {
+  const chars = [...text.replace(/\s+/g, '')];
+  if (/(\S)\1{11,}/u.test(text)) return true;
+  if (chars.length >= 40 && new Set(chars).size <= 4) return true;
+
+  const words = text.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length < 8) return false;
+  const counts = new Map();
+  for (const word of words) counts.set(word, (counts.get(word) || 0) + 1);
+  return Math.max(...counts.values()) / words.length >= 0.6;
+}
+
+// A sender's state, with the score decayed to now
+function getSender(key, now) {
+  let sender = senders.get(key);
+  if (!sender) {
+    sender = { score: 0, scoredAt: now, history: [], throttledUntil: 0, lastSentAt: 0, shadowUntil: 0, lastAction: 'allow', signals: [] };
+    senders.set(key, sender);
+  }
+  sender.score *= 0.5 ** ((now - sender.scoredAt) / HALF_LIFE_MS);
+  sender.scoredAt = now;
+  return sender;
+}
+
+function getRoom(roomId) {
+  if (!rooms.has(roomId)) rooms.set(roomId, { history: [], fresh: new Map() });
+  return rooms.get(roomId);
+}
+
+/**
+ * Whether a clientId counts as fresh for burst detection
+ * @param {number | null} firstSeen when the clientId was first seen (null: no clientId at all)
+ * @param {number} [now]
+ */
+function isFresh(firstSeen, now = Date.now()) {
+  return !firstSeen || now - firstSeen < FRESH_CLIENT_MS;
+}
+
+/**
+ * Score a message and decide what happens to it. Every call is recorded, so repeats of dropped lines still count
+ * @param {{ key: string, roomId: string, text: string, fresh: boolean, now?: number }} message
+ *   key identifies the sender (clientId, or IP without one)
+ * @returns {{ score: number, action: 'allow' | 'drop' | 'throttle' | 'shadow-mute', signals: string[], until?: number, escalated: boolean }}
+ *   until is when a throttled sender may speak again, or when a shadow-mute ends.
+ *   escalated is true when the action differs from this sender's previous one, the moment to tell moderators
+ */
+function check({ key, roomId, text, fresh, now = Date.now() }) {
+  const sender = getSender(key, now);
+  const room = getRoom(roomId);
+  const line = comparable(text);
+  const isShort = line.length < SHORT_TEXT;
+  const matches = (other) => other === line || (!isShort && similarity(other, line) >= NEAR_DUPLICATE);
+
+  sender.history = sender.history.filter((h) => now - h.ts < SENDER_WINDOW_MS);
+  room.history = room.history.filter((h) => now - h.ts < ROOM_WINDOW_MS);
+  for (const [other, ts] of room.fresh) {
+    if (now - ts >= BURST_WINDOW_MS) room.fresh.delete(other);
+  }
+
+  const signals = [];
+  if (sender.history.some((h) => h.text === line)) signals.push('repeat');
+  else if (sender.history.some((h) => matches(h.text))) signals.push('near-repeat');
+  const copiedFrom = new Set(room.history.filter((h) => h.key !== key && matches(h.text)).map((h) => h.key));
+  if (!isShort && copiedFrom.size >= 2) signals.push('copypasta');
+  if (isFlood(text)) signals.push('flood');
+  if (fresh) {
+    room.fresh.set(key, now);
+    if (room.fresh.size >= BURST_FRESH_SENDERS) signals.push('fresh-burst');
+  }
+
+  const added = signals.reduce((sum, s) => sum + SIGNALS[s] * (isShort && s.endsWith('repeat') ? 0.5 : 1), 0);
+  sender.score += added;
+  sender.history.push({ text: line, ts: now });
+  if (sender.history.length > SENDER_HISTORY) sender.history.shift();
+  room.history.push({ key, text: line, ts: now });
+  if (room.history.length > ROOM_HISTORY) room.history.shift();
+
+  // Throttles and shadow-mutes start only on a spammy message, not on the score left over from one
+  const reached = added > 0 ? THRESHOLDS.find((t) => sender.score >= t.score) : null;
+  if (reached && reached.action === 'shadow-mute') sender.shadowUntil = now + reached.durationMs;
+  if (reached && reached.action === 'throttle') sender.throttledUntil = Math.max(sender.throttledUntil, now + reached.durationMs);
+
+  let action = 'allow';
+  let until;
+  if (sender.shadowUntil > now) {
+    action = 'shadow-mute';
+    until = sender.shadowUntil;
+  } else if (sender.throttledUntil > now && now - sender.lastSentAt < THROTTLE_INTERVAL_MS) {
+    action = 'throttle';
+    until = sender.lastSentAt + THROTTLE_INTERVAL_MS;
+  } else if (reached) {
+    action = 'drop';
+  }
+  if (action === 'allow') sender.lastSentAt = now;
+
+  const escalated = action !== 'allow' && action !== sender.lastAction;
+  sender.lastAction = action;
+  sender.signals = signals;
+  return { score: Math.round(sender.score), action, signals, ...(until ? { until } : {}), escalated };
+}
+
+/**
+ * Senders with a score, throttle or shadow-mute still in force, highest score first
+ * @param {number} [now]
+ */
+function snapshot(now = Date.now()) {
+  return [...senders.keys()]
+    .map((key) => ({ key, sender: getSender(key, now) }))
+    .filter(({ sender }) => sender.score >= 1 || sender.throttledUntil > now || sender.shadowUntil > now)
+    .map(({ key, sender }) => ({
+      key,
+      score: Math.round(sender.score),
+      lastAction: sender.lastAction,
+      signals: sender.signals,
+      throttledUntil: sender.throttledUntil > now ? sender.throttledUntil : null,
+      shadowMutedUntil: sender.shadowUntil > now ? sender.shadowUntil : null,
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Forget a sender's score, throttle and shadow-mute
+ * @param {string} key
+ * @returns {boolean} whether there was anything to forget
+ */
+function pardon(key) {
+  return senders.delete(key);
+}
+
+function forgetRoom(roomId) {
+  rooms.delete(roomId);
+}
+
+/**
+ * Drop senders and rooms with nothing left that could affect a future message
+ * @param {number} [now]
+ */
+function sweep(now = Date.now()) {
+  for (const [key, sender] of senders) {
+    const idle = sender.history.every((h) => now - h.ts >= SENDER_WINDOW_MS);
+    if (idle && getSender(key, now).score < 1 && sender.throttledUntil <= now && sender.shadowUntil <= now) {
+      senders.delete(key);
+    }
+  }
+  for (const [roomId, room] of rooms) {
+    const quiet = room.history.every((h) => now - h.ts >= ROOM_WINDOW_MS);
+    if (quiet && [...room.fresh.values()].every((ts) => now - ts >= BURST_WINDOW_MS)) rooms.delete(roomId);
+  }
+}
+
+module.exports = {
+  FRESH_CLIENT_MS,
+  similarity,
+  isFlood,
+  isFresh,
+  check,
+  snapshot,
+  pardon,
+  forgetRoom,
+  sweep,
+};
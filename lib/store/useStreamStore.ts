@@ -1,30 +1,23 @@
 /**
  * Zustand store for the ephemeral message stream.
  * Rule of Three: newest 3 are fully visible, older ones fade gradually.
- * We keep up to MAX_VISIBLE messages before marking oldest as leaving.
+ * We keep up to maxVisible messages (the room's visible + faded counts) before marking oldest as leaving.
  */
 
 import { create } from "zustand";
+import type { StreamMessage } from "@/lib/protocol";
 
-export type Message = {
-  id: string;
-  text: string;
-  color: string;
-  handle: string | null;
-  tag?: string | null;
-  sigil?: string | null;
-  whisper?: boolean;
-  ts: number;
+export type Message = StreamMessage & {
   leaving?: boolean;
   ghost?: boolean; // Messages you weren't present for - shown blurred
-  flagged?: boolean; // Message was moderated (bigotry masked)
-  hashtags?: string[]; // Hashtags extracted from message text for topic subscriptions
 };
 
-const MAX_VISIBLE = 6; // Keep 6 messages, fade those beyond the newest 3
+const MAX_VISIBLE = 6; // Keep 6 messages, fade those beyond the newest 3 (until the room says otherwise)
 
 type StreamState = {
   messages: Message[];
+  maxVisible: number;
+  setMaxVisible: (count: number) => void;
   addMessage: (msg: Omit<Message, "leaving">) => void;
   markLeaving: (id: string) => void;
   removeAfterDissipate: (id: string) => void;
@@ -33,17 +26,31 @@ type StreamState = {
   updateHandleForColor: (color: string, handle: string | null) => void;
   updateTagForColor: (color: string, tag: string | null) => void;
   updateSigilForColor: (color: string, sigil: string | null) => void;
+  setHidden: (id: string, hidden: boolean) => void;
 };
 
 export const useStreamStore = create<StreamState>((set, get) => ({
   messages: [],
+  maxVisible: MAX_VISIBLE,
+
+  // A room keeping fewer messages sends the oldest extras on their way
+  setMaxVisible: (count) => {
+    set((state) => {
+      const visible = state.messages.filter((m) => !m.leaving);
+      const excess = new Set(visible.slice(0, Math.max(0, visible.length - count)).map((m) => m.id));
+      return {
+        maxVisible: count,
+        messages: excess.size > 0 ? state.messages.map((m) => (excess.has(m.id) ? { ...m, leaving: true } : m)) : state.messages,
+      };
+    });
+  },
 
   addMessage: (msg) => {
     set((state) => {
       const next = [...state.messages, { ...msg, leaving: false }];
       // Rule of Three: if we exceed 3 visible, mark oldest non-leaving as leaving
       const visible = next.filter((m) => !m.leaving);
-      if (visible.length > MAX_VISIBLE) {
+      if (visible.length > state.maxVisible) {
         const oldest = visible[0];
         const updated = next.map((m) =>
           m.id === oldest.id ? { ...m, leaving: true } : m
@@ -95,4 +102,11 @@ export const useStreamStore = create<StreamState>((set, get) => ({
       ),
     }));
   },
+  setHidden: (id, hidden) => {
+    set((state) => ({
+      messages: state.messages.map((m) =>
+        m.id === id ? { ...m, hidden } : m
+      ),
+    }));
+  },
 }));
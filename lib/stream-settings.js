@@ -0,0 +1,79 @@
+/**
+ * Witch@ Stream Settings
+ *
+ * - Each room tunes its own stream: how many recent messages newcomers inherit as ghosts, how many stay
+ *   clear and how many fade out behind them, and how long presence ghosts, silence, mood and stepping away take
+ * - Kept in the room's metadata and sent with room-joined/room-info, so the client stream follows the room
+ * - Rooms persisted before a setting existed get its default; LIMITS also bounds what lib/validation accepts
+ */
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+
+/**
+ * @typedef {{
+ *   ghostMessages: number,
+ *   visibleMessages: number,
+ *   fadedMessages: number,
+ *   presenceGhostMs: number,
+ *   silenceMs: number,
+ *   moodDecayMs: number,
+ *   awayMs: number,
+ * }} StreamSettings
+ */
+
+/** @type {Readonly<StreamSettings>} */
+const DEFAULT_SETTINGS = Object.freeze({
+  ghostMessages: 3, // The Rule of Three
+  visibleMessages: 3,
+  fadedMessages: 3,
+  presenceGhostMs: 3 * MINUTE_MS,
+  silenceMs: 30 * SECOND_MS,
+  moodDecayMs: 3 * MINUTE_MS,
+  awayMs: 2 * MINUTE_MS,
+});
+
+/** @type {Record<keyof StreamSettings, { min: number, max: number }>} */
+const LIMITS = {
+  ghostMessages: { min: 0, max: 10 },
+  visibleMessages: { min: 1, max: 10 },
+  fadedMessages: { min: 0, max: 10 },
+  presenceGhostMs: { min: 30 * SECOND_MS, max: 30 * MINUTE_MS },
+  silenceMs: { min: 5 * SECOND_MS, max: 10 * MINUTE_MS },
+  moodDecayMs: { min: MINUTE_MS, max: 60 * MINUTE_MS }, // The decay timer ticks once a minute
+  awayMs: { min: 30 * SECOND_MS, max: 30 * MINUTE_MS },
+};
+
+/**
+ * Complete settings from whatever is stored or asked for: defaults fill the gaps, numbers are
+ * rounded and kept within LIMITS, unknown keys are dropped
+ * @param {Partial<StreamSettings> | null | undefined} stored
+ * @returns {StreamSettings}
+ */
+function resolve(stored) {
+  const settings = { ...DEFAULT_SETTINGS };
+  for (const [key, { min, max }] of Object.entries(LIMITS)) {
+    const value = stored ? stored[key] : undefined;
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      settings[key] = Math.min(max, Math.max(min, Math.round(value)));
+    }
+  }
+  return settings;
+}
+
+/**
+ * Which settings differ between two complete sets
+ * @param {StreamSettings} before
+ * @param {StreamSettings} after
+ * @returns {string[]}
+ */
+function changedKeys(before, after) {
+  return Object.keys(LIMITS).filter((key) => before[key] !== after[key]);
+}
+
+module.exports = {
+  DEFAULT_SETTINGS,
+  LIMITS,
+  resolve,
+  changedKeys,
+};
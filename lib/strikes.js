@@ -0,0 +1,95 @@
+/**
+ * Witch@ Strike Ladder
+ *
+ * - Each moderation hit is a strike against the sender's clientId and IP; the higher count picks the step,
+ *   so clearing storage or switching networks alone doesn't reset it
+ * - Strikes decay: only those inside the decay window count
+ * - The ladder is a list of steps written like "warn,mute:15,ban:1440,ban" (minutes; a ban without
+ *   minutes is permanent). Past the last step, every strike repeats it
+ * - Counts live in lib/redis (Redis with in-memory fallback), so every node sees the same ladder position
+ */
+
+const redis = require('./redis');
+
+/** @typedef {{ action: 'warn' | 'mute' | 'ban', minutes: number | null }} StrikeStep */
+
+const DEFAULT_LADDER = 'warn,mute:15,ban:1440,ban';
+const DEFAULT_DECAY_MS = 7 * 24 * 60 * 60 * 1000; // Outlasts the default temporary ban, so the next step is still there after it
+const ACTIONS = ['warn', 'mute', 'ban'];
+
+/**
+ * Parse a ladder spec
+ * @param {string} spec
+ * @returns {StrikeStep[]}
+ * @throws {Error} when a step is malformed
+ */
+function parseLadder(spec) {
+  const steps = spec.split(',').map((s) => s.trim()).filter(Boolean).map((step) => {
+    const [action, minutesText] = step.split(':');
+    if (!ACTIONS.includes(action)) throw new Error(`unknown action "${action}" (expected ${ACTIONS.join(', ')})`);
+    const minutes = minutesText === undefined ? null : Number(minutesText);
+    if (minutes !== null && !(Number.isInteger(minutes) && minutes > 0)) {
+      throw new Error(`"${step}" needs a whole number of minutes`);
+    }
+    if (action === 'mute' && minutes === null) throw new Error(`"${step}" needs minutes (mute:15)`);
+    if (action === 'warn' && minutes !== null) throw new Error(`"${step}" takes no minutes`);
+    return { action, minutes };
+  });
+  if (steps.length === 0) throw new Error('ladder is empty');
+  return steps;
+}
+
+let ladder = parseLadder(DEFAULT_LADDER);
+let decayMs = DEFAULT_DECAY_MS;
+
+/**
+ * Replace the ladder and decay window; leaves both unchanged if the spec doesn't parse
+ * @param {{ ladder?: string, decayMs?: number }} options
+ * @throws {Error} from parseLadder
+ */
+function configure(options) {
+  if (options.ladder) ladder = parseLadder(options.ladder);
+  if (options.decayMs > 0) decayMs = options.decayMs;
+}
+
+function getLadder() {
+  return ladder.map((step) => ({ ...step }));
+}
+
+function keysFor({ ip = null, clientId = null }) {
+  return [clientId && `client:${clientId}`, ip && `ip:${ip}`].filter(Boolean);
+}
+
+/**
+ * Record a strike and work out where on the ladder it lands
+ * @param {{ ip?: string | null, clientId?: string | null }} target
+ * @returns {Promise<{ strikes: number, step: StrikeStep, next: StrikeStep | null }>}
+ *   next is what the following strike brings (null when already at the last step)
+ */
+async function recordStrike(target) {
+  const counts = await Promise.all(keysFor(target).map((key) => redis.addStrike(key, decayMs)));
+  const strikes = Math.max(1, ...counts);
+  const index = Math.min(strikes, ladder.length) - 1;
+  return {
+    strikes,
+    step: { ...ladder[index] },
+    next: index + 1 < ladder.length ? { ...ladder[index + 1] } : null,
+  };
+}
+
+/**
+ * Wipe strikes, e.g. when a ban is lifted by hand
+ * @param {{ ip?: string | null, clientId?: string | null }} target
+ */
+async function pardon(target) {
+  await Promise.all(keysFor(target).map((key) => redis.clearStrikes(key)));
+}
+
+module.exports = {
+  DEFAULT_LADDER,
+  parseLadder,
+  configure,
+  getLadder,
+  recordStrike,
+  pardon,
+};
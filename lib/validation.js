@@ -0,0 +1,271 @@
+/**
+ * Witch@ Inbound Payload Validation
+ *
+ * - Declarative schemas for every client -> server event, and for admin API request bodies
+ * - Structural checks only (types, lengths); semantic checks like hex colors stay in the handlers
+ * - Pure functions, no socket or server state, so schemas can be exercised directly
+ */
+
+const { LIMITS: STREAM_LIMITS } = require('./stream-settings');
+
+const MAX_TEXT_LENGTH = 1000; // Handlers still trim to 500; anything far beyond is abuse
+const MAX_ID_LENGTH = 64;
+const MAX_FIELD_LENGTH = 64;
+const MAX_DESCRIPTION_LENGTH = 200; // As the room form and socket-server.js allow
+
+// Schema builders
+
+function str({ min = 0, max = MAX_FIELD_LENGTH } = {}) {
+  return { type: 'string', min, max };
+}
+
+function num({ min = 0, max = Number.MAX_SAFE_INTEGER, integer = false } = {}) {
+  return { type: 'number', min, max, integer };
+}
+
+function bool() {
+  return { type: 'boolean' };
+}
+
+function obj(shape) {
+  return { type: 'object', shape };
+}
+
+function arrayOf(item, { max = 100 } = {}) {
+  return { type: 'array', item, max };
+}
+
+function optional(schema) {
+  return { ...schema, optional: true };
+}
+
+function nullable(schema) {
+  return { ...schema, nullable: true };
+}
+
+function oneOf(...options) {
+  return { type: 'oneOf', options };
+}
+
+const NULL = { type: 'null' };
+
+// Optional, nullable string - the common shape for identity fields
+const field = (max = MAX_FIELD_LENGTH) => optional(nullable(str({ max })));
+
+const dmTarget = {
+  targetColor: field(16),
+  targetSocketId: field(MAX_ID_LENGTH),
+};
+
+// Moderation targets are a handle or a #rrggbb color in the moderator's room
+const modTarget = {
+  target: str({ min: 1, max: 32 }),
+  reason: optional(str({ max: 200 })),
+};
+const MAX_MOD_MINUTES = 7 * 24 * 60;
+
+// Ways into a secret room; tokens are signed JSON, a few hundred characters
+const MIN_PASSPHRASE_LENGTH = 4;
+const MAX_PASSPHRASE_LENGTH = 128;
+const MAX_TOKEN_LENGTH = 512;
+const roomCredentials = {
+  passphrase: optional(str({ min: 1, max: MAX_PASSPHRASE_LENGTH })),
+  invite: optional(str({ min: 1, max: MAX_TOKEN_LENGTH })),
+  pass: optional(str({ min: 1, max: MAX_TOKEN_LENGTH })),
+};
+
+// Opening hours (lib/schedule.js checks the times, days and zone make sense)
+const roomSchedule = obj({
+  kind: str({ min: 1, max: 16 }),
+  days: optional(arrayOf(num({ min: 0, max: 6, integer: true }), { max: 7 })),
+  open: optional(str({ min: 1, max: 5 })),
+  close: optional(str({ min: 1, max: 5 })),
+  start: optional(str({ min: 1, max: 16 })),
+  end: optional(str({ min: 1, max: 16 })),
+  timeZone: str({ min: 1, max: 64 }),
+});
+
+// Per-room stream tuning; any subset, each within lib/stream-settings.js LIMITS
+const streamSettings = obj(Object.fromEntries(
+  Object.entries(STREAM_LIMITS).map(([key, { min, max }]) => [key, optional(num({ min, max, integer: true }))])
+));
+
+// Events without an entry here take no payload (typing, focus, away, ...) and are not checked
+const EVENT_SCHEMAS = {
+  join: optional(nullable(obj({
+    color: field(16),
+    handle: field(),
+    tag: field(),
+    sigil: field(),
+    clientId: field(MAX_ID_LENGTH),
+    roomId: field(),
+    ...roomCredentials,
+  }))),
+  message: oneOf(
+    str({ min: 1, max: MAX_TEXT_LENGTH }),
+    obj({ text: str({ min: 1, max: MAX_TEXT_LENGTH }), whisper: optional(bool()) })
+  ),
+  reveal: oneOf(
+    NULL,
+    str(),
+    obj({ handle: field(), tag: field(), sigil: field() })
+  ),
+  affirm: str({ min: 1, max: MAX_ID_LENGTH }),
+  copy: obj({ messageId: optional(nullable(str({ max: MAX_ID_LENGTH }))) }),
+  summon: str({ min: 1, max: 32 }),
+  'create-room': obj({
+    title: str({ min: 1, max: 128 }),
+    secret: optional(bool()),
+    passphrase: optional(str({ min: MIN_PASSPHRASE_LENGTH, max: MAX_PASSPHRASE_LENGTH })),
+    schedule: optional(roomSchedule),
+  }),
+  'delete-room': obj({ roomId: str({ min: 1, max: MAX_FIELD_LENGTH }) }),
+  'switch-room': obj({ roomId: str({ min: 1, max: MAX_FIELD_LENGTH }), ...roomCredentials }),
+  'branch-room': obj({ title: str({ min: 1, max: 128 }) }),
+  'listen-room': obj({ roomId: str({ min: 1, max: MAX_FIELD_LENGTH }), ...roomCredentials }),
+  'unlisten-room': obj({ roomId: str({ min: 1, max: MAX_FIELD_LENGTH }) }),
+  'update-room': obj({
+    title: optional(str({ min: 1, max: 128 })),
+    description: optional(nullable(str({ max: MAX_DESCRIPTION_LENGTH }))),
+    secret: optional(bool()),
+    schedule: optional(nullable(roomSchedule)),
+    pinned: optional(bool()),
+    settings: optional(streamSettings),
+  }),
+  'hand-off-room': obj({ target: str({ min: 1, max: 32 }) }),
+  'create-invite': obj({
+    minutes: optional(num({ min: 1, max: 7 * 24 * 60, integer: true })),
+    maxUses: optional(num({ min: 1, max: 100, integer: true })),
+  }),
+  dm: obj({ ...dmTarget, text: str({ min: 1, max: MAX_TEXT_LENGTH }) }),
+  'dm-typing': obj(dmTarget),
+  'mod-auth': str({ min: 1, max: 256 }),
+  'mod-kick': obj(modTarget),
+  'mod-mute': obj({ ...modTarget, minutes: num({ min: 1, max: MAX_MOD_MINUTES, integer: true }) }),
+  'mod-ban': obj({ ...modTarget, minutes: optional(num({ min: 1, max: MAX_MOD_MINUTES, integer: true })) }),
+  'mod-unban': obj({ banId: str({ min: 1, max: MAX_ID_LENGTH }) }),
+  'mod-lock': obj({ locked: bool() }),
+  'mod-links': obj({ mode: nullable(str({ min: 1, max: 16 })) }),
+  report: obj({
+    messageId: str({ min: 1, max: MAX_ID_LENGTH }),
+    text: str({ max: MAX_TEXT_LENGTH }),
+    reason: str({ min: 1, max: 200 }),
+  }),
+};
+
+// Admin HTTP API bodies, keyed by route (lib/admin.js); routes without an entry ignore the body
+const ADMIN_SCHEMAS = {
+  'POST /admin/bans': obj({
+    ip: optional(str({ min: 1, max: MAX_FIELD_LENGTH })),
+    clientId: optional(str({ min: 1, max: MAX_ID_LENGTH })),
+    label: optional(str({ max: 32 })),
+    reason: str({ min: 1, max: 200 }),
+    minutes: optional(num({ min: 1, max: MAX_MOD_MINUTES, integer: true })),
+  }),
+  'PATCH /admin/rooms/:roomId': obj({ title: str({ min: 1, max: 128 }) }),
+  'POST /admin/notice': obj({ text: str({ min: 1, max: 500 }), roomId: optional(str({ min: 1, max: MAX_FIELD_LENGTH })) }),
+  'POST /admin/reports/:reportId/resolve': obj({
+    action: str({ min: 1, max: 16 }),
+    note: optional(str({ max: 200 })),
+    minutes: optional(num({ min: 1, max: MAX_MOD_MINUTES, integer: true })),
+  }),
+  'POST /admin/drain': optional(obj({ delaySeconds: optional(num({ min: 0, max: 300, integer: true })) })),
+};
+
+function describe(value) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Check a value against a schema
+ * @param {object} schema
+ * @param {unknown} value
+ * @param {string} [path]
+ * @returns {string | null} error message, or null when valid
+ */
+function check(schema, value, path = 'payload') {
+  if (value === undefined) {
+    return schema.optional ? null : `${path} is required`;
+  }
+  if (value === null && schema.type !== 'oneOf') {
+    return schema.nullable || schema.type === 'null' ? null : `${path} must not be null`;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return `${path} must be a string, got ${describe(value)}`;
+      if (value.length < schema.min) return `${path} must not be empty`;
+      if (value.length > schema.max) return `${path} exceeds ${schema.max} characters`;
+      return null;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${path} must be a number, got ${describe(value)}`;
+      if (schema.integer && !Number.isInteger(value)) return `${path} must be a whole number`;
+      if (value < schema.min || value > schema.max) return `${path} must be between ${schema.min} and ${schema.max}`;
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${path} must be a boolean, got ${describe(value)}`;
+    case 'null':
+      return `${path} must be null, got ${describe(value)}`;
+    case 'array': {
+      if (!Array.isArray(value)) return `${path} must be an array, got ${describe(value)}`;
+      if (value.length > schema.max) return `${path} exceeds ${schema.max} items`;
+      for (let i = 0; i < value.length; i++) {
+        const error = check(schema.item, value[i], `${path}[${i}]`);
+        if (error) return error;
+      }
+      return null;
+    }
+    case 'object': {
+      if (describe(value) !== 'object') return `${path} must be an object, got ${describe(value)}`;
+      for (const [key, fieldSchema] of Object.entries(schema.shape)) {
+        const error = check(fieldSchema, value[key], `${path}.${key}`);
+        if (error) return error;
+      }
+      return null;
+    }
+    case 'oneOf': {
+      // Report the error from the option shaped like the value, not just the first one tried
+      const option = schema.options.find((o) => o.type === describe(value));
+      if (!option) return `${path} has unexpected type ${describe(value)}`;
+      return check(option, value, path);
+    }
+    default:
+      return `${path} has unknown schema type`;
+  }
+}
+
+/**
+ * Validate an inbound event payload
+ * @param {string} event
+ * @param {unknown} payload
+ * @returns {{ valid: boolean, reason?: string }}
+ */
+function validatePayload(event, payload) {
+  const schema = EVENT_SCHEMAS[event];
+  if (!schema) return { valid: true };
+  const reason = check(schema, payload);
+  return reason ? { valid: false, reason } : { valid: true };
+}
+
+/**
+ * Validate an admin API request body
+ * @param {string} route e.g. "POST /admin/bans"
+ * @param {unknown} body
+ * @returns {{ valid: boolean, reason?: string }}
+ */
+function validateAdminBody(route, body) {
+  const schema = ADMIN_SCHEMAS[route];
+  if (!schema) return { valid: true };
+  const reason = check(schema, body, 'body');
+  return reason ? { valid: false, reason } : { valid: true };
+}
+
+module.exports = {
+  validatePayload,
+  validateAdminBody,
+  check,
+  EVENT_SCHEMAS,
+  MAX_TEXT_LENGTH,
+};
@@ -1,13 +1,43 @@
+// @ts-check
 /**
  * Witch@ — Standalone Socket.io server.
  * Run separately from Next.js so dev gets clean HMR. Client connects via NEXT_PUBLIC_SOCKET_URL.
  */
 
 const { createServer } = require("http");
+const crypto = require("crypto");
+const path = require("path");
 const { Server } = require("socket.io");
+const { createAdapter } = require("@socket.io/redis-adapter");
 const Sentiment = require("sentiment");
 const redis = require("./lib/redis");
 const moderation = require("./lib/moderation");
+const validation = require("./lib/validation");
+const bans = require("./lib/bans");
+const admin = require("./lib/admin");
+const metrics = require("./lib/metrics");
+const strikes = require("./lib/strikes");
+const spam = require("./lib/spam");
+const reports = require("./lib/reports");
+const policy = require("./lib/policy");
+const audit = require("./lib/audit");
+const roomAccess = require("./lib/room-access");
+const schedules = require("./lib/schedule");
+const streamSettings = require("./lib/stream-settings");
+
+/**
+ * Event contract lives in lib/protocol.ts; `npm run typecheck` checks this file against it.
+ * @typedef {import("./lib/protocol").ClientToServerEvents} ClientToServerEvents
+ * @typedef {import("./lib/protocol").ServerToClientEvents} ServerToClientEvents
+ * @typedef {import("./lib/protocol").InterServerEvents} InterServerEvents
+ * @typedef {import("./lib/protocol").SocketData} SocketData
+ * @typedef {import("./lib/protocol").StreamMessage} StreamMessage
+ * @typedef {import("./lib/protocol").RoomMeta} RoomMeta
+ * @typedef {import("./lib/protocol").Ban} Ban
+ * @typedef {import("./lib/protocol").StrikeStep} StrikeStep
+ * @typedef {Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>} WitchServer
+ * @typedef {import("socket.io").Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>} WitchSocket
+ */
 
 // Structured logger
 const LOG_LEVELS = { error: 0, warn: 1, info: 2, debug: 3 };
@@ -43,7 +73,7 @@ const corsOpt = CORS_ORIGIN
   : { origin: true, methods: ["GET", "POST"] };
 
 const sentiment = new Sentiment();
-const MAX_MESSAGES = 3;
+const MAX_MESSAGES = 3; // Kept per room at least, whatever its settings, so reports and reveals can find them
 const MAX_SENTIMENT_HISTORY = 5;
 const MOOD_NEUTRAL = "neutral";
 const MOOD_CALM = "calm";
@@ -51,26 +81,41 @@ const MOOD_INTENSE = "intense";
 const SIGILS = ["spiral", "eye", "triangle", "cross", "diamond"];
 const DEFAULT_ROOM_ID = "main";
 const DEFAULT_ROOM_TITLE = process.env.ROOM_TITLE || "the well";
-const MOOD_DECAY_MS = 3 * 60 * 1000;
-const SILENCE_THRESHOLD_MS = 30 * 1000; // 30 seconds for "settled silence"
 let moodDecayTimer = null;
 let silenceTimer = null;
-const socketIdToIP = new Map(); // Track unique users by IP
-const socketFocused = new Map(); // Track who has tab focused
-const socketAway = new Map(); // Track who's "stepping away"
+let banSweepTimer = null;
+let scheduleTimer = null;
+let roomSweepTimer = null;
+let directoryTimer = null;
+// Per-user state (ip, focus, stepping away) lives on socket.data so other nodes can read it via fetchSockets()
 const awayTimers = new Map(); // Auto-disconnect after prolonged away
 const typingTimers = new Map();
-const messageResonance = new Map(); // messageId -> copy count
+const messageResonance = new Map(); // messageId -> { roomId, count } copies
 const RESONANCE_DECAY_MS = 5 * 60 * 1000; // 5 minutes
 
 // Room management
-const rooms = new Map(); // roomId -> { title, secret, createdAt, messages, sentiment, lastActivity, presence ghosts }
-const socketToRoom = new Map(); // socketId -> roomId
+const rooms = new Map(); // roomId -> { title, description, secret, passphrase, keeper, createdAt, messages, sentiment, lastActivity, presence ghosts }
+const socketToRoom = new Map(); // socketId -> roomId spoken in; rooms only listened to are on socket.data.listening
+const lingeringSessions = new Map(); // clientId -> { ip, room, timer } for sockets that dropped on this node
 
 // Active DM conversations (crosstalk) - visible to room but text obscured
 const activeDMs = new Map(); // `${roomId}:${color1}:${color2}` (sorted colors) -> { participants, lastActivity }
 const dmCleanupTimers = new Map(); // dmKey -> timer (single timer per DM session)
 const MAX_ROOMS = 50; // Limit total rooms to prevent DoS (Issue #4)
+const MAX_LISTENING_ROOMS = 5; // Rooms one socket can follow besides the one it speaks in
+const MAX_DESCRIPTION_LENGTH = 200;
+// Rooms empty this long are reclaimed (ROOM_IDLE_HOURS, default a day; 0 keeps them forever)
+const ROOM_IDLE_HOURS = parseFloat(process.env.ROOM_IDLE_HOURS);
+const ROOM_IDLE_MS = (Number.isNaN(ROOM_IDLE_HOURS) ? 24 : ROOM_IDLE_HOURS) * 60 * 60 * 1000;
+
+// Multi-node: with the Redis adapter attached, each node keeps a replica of `rooms`
+// and keeps it in sync through serverSideEmit. Without Redis there's one node and nothing to sync.
+let clustered = false;
+const ACTIVITY_SYNC_MS = 1000; // Throttle cross-node lastActivity updates from typing
+
+function syncNodes(event, ...args) {
+  if (clustered) io.serverSideEmit(event, ...args);
+}
 
 function getRoomId(roomIdOrSlug) {
   // Normalize room ID: lowercase, alphanumeric + hyphens only
@@ -81,75 +126,735 @@ function getRoomId(roomIdOrSlug) {
 
 function getOrCreateRoom(roomId, options = {}) {
   if (!rooms.has(roomId)) {
-    rooms.set(roomId, {
+    const room = {
       id: roomId,
       title: options.title || (roomId === DEFAULT_ROOM_ID ? DEFAULT_ROOM_TITLE : roomId),
+      description: null,
       secret: options.secret || false,
+      passphrase: options.passphrase || null, // Hash, from roomAccess.hashPassphrase
+      accessEpoch: 0,
+      keeper: options.keeper || null, // clientId of whoever keeps the room (its creator, until handed off)
+      schedule: options.schedule || null, // Opening hours, from schedules.normalize; null is always open
+      pinned: false, // Set by the keeper: never reclaimed when idle
+      settings: streamSettings.resolve(options.settings), // Ghosts, fading and timings (lib/stream-settings.js)
+      parentId: options.parentId || null, // Branches: the room they branched from
       createdAt: Date.now(),
       messages: [],
       sentiment: [],
       lastActivity: Date.now(),
       lastMessageTs: 0,
+      lastActivitySync: 0,
+      lastOccupied: Date.now(), // Last time the idle sweep saw anyone here; local to each node
       silenceState: false,
+      locked: false,
+      linkMode: null,
       presenceGhosts: [],
-    });
+    };
+    rooms.set(roomId, room);
+    persistRoomMeta(room);
+    syncNodes("room-created", getRoomMeta(room));
     logger.info("Room created", { roomId, secret: options.secret || false });
   }
   return rooms.get(roomId);
 }
 
-function getRoomPresence(io, roomId) {
-  const room = io.sockets.adapter.rooms.get(roomId);
-  if (!room) return 0;
-  const ips = new Set();
-  for (const socketId of room) {
-    const ip = socketIdToIP.get(socketId);
-    if (ip) ips.add(ip);
+/** @returns {RoomMeta} */
+function getRoomMeta(room) {
+  return {
+    id: room.id,
+    title: room.title,
+    description: room.description,
+    secret: room.secret,
+    locked: room.locked,
+    linkMode: room.linkMode,
+    passphrase: room.passphrase,
+    accessEpoch: room.accessEpoch,
+    keeper: room.keeper,
+    schedule: room.schedule,
+    pinned: room.pinned,
+    settings: room.settings,
+    parentId: room.parentId,
+    createdAt: room.createdAt,
+    lastActivity: room.lastActivity,
+    lastMessageTs: room.lastMessageTs,
+  };
+}
+
+// What everyone in a room sees of it
+/** @returns {import("./lib/protocol").RoomInfo} */
+function getRoomInfo(room) {
+  return {
+    id: room.id,
+    title: room.title,
+    description: room.description,
+    secret: room.secret,
+    locked: room.locked,
+    hasPassphrase: !!room.passphrase,
+    pinned: room.pinned,
+    settings: room.settings,
+    ...getOpeningInfo(room),
+  };
+}
+
+// Opening hours and whether the room is open now; just schedule: null for rooms that are always open
+function getOpeningInfo(room) {
+  if (!room.schedule) return { schedule: null };
+  return { schedule: room.schedule, opening: schedules.status(room.schedule) };
+}
+
+// Keepers (the room's creator, or whoever it was handed to) and moderators may change a room
+/** @param {WitchSocket} socket */
+function canKeep(socket, room) {
+  return socket.data.moderator || (!!room.keeper && room.keeper === socket.data.clientId);
+}
+
+// Room metadata for the admin API: whether there is a passphrase, not its hash
+function getAdminRoomMeta(room) {
+  const { passphrase, ...meta } = getRoomMeta(room);
+  return { ...meta, hasPassphrase: !!passphrase };
+}
+
+// Write-through: room metadata goes to Redis (or the in-memory fallback) whenever it changes
+function persistRoomMeta(room) {
+  redis.saveRoom(getRoomMeta(room));
+}
+
+// Change title/description/secret/passphrase/keeper/locked/linkMode on a room, persist it and update the other nodes' replicas
+function updateRoomMeta(room, changes) {
+  Object.assign(room, changes);
+  persistRoomMeta(room);
+  syncNodes("room-updated", getRoomMeta(room));
+}
+
+// Drop a room and everything scoped to it (DM timers, resonance, schedule state, branch drift)
+function removeRoom(roomId) {
+  // Fix: Clean up orphaned DM timers for this room
+  for (const [dmKey, timer] of dmCleanupTimers) {
+    if (dmKey.startsWith(`${roomId}:`)) {
+      clearTimeout(timer);
+      dmCleanupTimers.delete(dmKey);
+      activeDMs.delete(dmKey);
+    }
+  }
+  metrics.forgetRoom(roomId);
+  for (const [messageId, resonance] of messageResonance) {
+    if (resonance.roomId === roomId) messageResonance.delete(messageId);
+  }
+  spam.forgetRoom(roomId);
+  scheduleStates.delete(roomId);
+  const drift = branchDrifts.get(roomId);
+  if (drift) {
+    clearTimeout(drift.timer);
+    branchDrifts.delete(roomId);
+  }
+  rooms.delete(roomId);
+}
+
+// Apply a message to a room's stream state (shared by the local handler and remote nodes)
+function applyMessage(room, msg, score) {
+  room.lastMessageTs = msg.ts;
+  room.lastActivity = msg.ts;
+  room.silenceState = false;
+  markDirectoryChanged();
+
+  room.sentiment.push(score);
+  if (room.sentiment.length > MAX_SENTIMENT_HISTORY) {
+    room.sentiment.shift();
+  }
+
+  room.messages.push(msg);
+  while (room.messages.length > keptMessages(room)) {
+    room.messages.shift();
+  }
+}
+
+// How many recent messages a room holds: enough to hand newcomers their ghosts
+function keptMessages(room) {
+  return Math.max(MAX_MESSAGES, room.settings.ghostMessages);
+}
+
+// The newest count messages still showing (count 0 is none, not all)
+function recentMessages(room, count) {
+  return count > 0 ? room.messages.filter((m) => !m.hidden).slice(-count) : [];
+}
+
+// Apply a reveal to a room's stored messages
+function applyIdentity(room, color, updates) {
+  for (const msg of room.messages) {
+    if (msg.color === color) Object.assign(msg, updates);
+  }
+}
+
+// Restore rooms and their stream state persisted by a previous process
+async function rehydrateRooms() {
+  const persisted = await redis.loadRooms();
+  for (const { meta, messages, sentiment, ghosts } of persisted) {
+    if (rooms.size >= MAX_ROOMS) break;
+    const settings = streamSettings.resolve(meta.settings);
+    rooms.set(meta.id, {
+      id: meta.id,
+      title: meta.id === DEFAULT_ROOM_ID ? DEFAULT_ROOM_TITLE : meta.title,
+      description: meta.description || null,
+      secret: !!meta.secret,
+      passphrase: meta.passphrase || null,
+      accessEpoch: meta.accessEpoch || 0,
+      keeper: meta.keeper || null,
+      schedule: meta.schedule || null,
+      pinned: !!meta.pinned,
+      settings,
+      parentId: meta.parentId || null,
+      createdAt: meta.createdAt || Date.now(),
+      messages: messages.slice(-Math.max(MAX_MESSAGES, settings.ghostMessages)),
+      sentiment: sentiment.slice(-MAX_SENTIMENT_HISTORY),
+      lastActivity: meta.lastActivity || Date.now(),
+      lastMessageTs: meta.lastMessageTs || 0,
+      lastActivitySync: 0,
+      lastOccupied: meta.lastActivity || Date.now(), // Who was here before the restart is unknown; go by activity
+      silenceState: false,
+      locked: !!meta.locked,
+      linkMode: meta.linkMode || null,
+      presenceGhosts: ghosts,
+    });
+    cleanPresenceGhosts(meta.id);
+  }
+  if (persisted.length > 0) {
+    logger.info("Rooms rehydrated", { count: persisted.length, redis: redis.isAvailable() });
+  }
+}
+
+// Unique IPs in a room across every node (fetchSockets goes through the adapter)
+/** @param {WitchServer} io */
+async function getRoomPresence(io, roomId) {
+  const sockets = await io.in(roomId).fetchSockets();
+  return new Set([...sockets.map((s) => s.data.ip), ...getLingeringIPs(roomId)].filter(Boolean)).size;
+}
+
+// Sessions in their grace window still count as present, so a reconnect doesn't read as leave + join
+function getLingeringIPs(roomId) {
+  const ips = [];
+  for (const entry of lingeringSessions.values()) {
+    if (entry.room === roomId) ips.push(entry.ip);
+  }
+  return ips;
+}
+
+// Listeners follow a room through its own channel, so they get pulses without the room's stream and events
+const listenChannel = (roomId) => `listen:${roomId}`;
+
+// Unique IPs listening to a room from another one (across every node)
+/** @param {WitchServer} io */
+async function getRoomListeners(io, roomId) {
+  const sockets = await io.in(listenChannel(roomId)).fetchSockets();
+  return new Set(sockets.map((s) => s.data.ip).filter(Boolean)).size;
+}
+
+// Unique IPs per room, speaking and listening: one cluster-wide fetch, grouped by room, instead of a round trip per room
+/**
+ * @param {WitchServer} io
+ * @returns {Promise<{ present: Map<string, number>, listening: Map<string, number> }>}
+ */
+async function getPresenceByRoom(io) {
+  const ipsByRoom = new Map();
+  const listenerIpsByRoom = new Map();
+  const add = (byRoom, roomId, ip) => {
+    if (!byRoom.has(roomId)) byRoom.set(roomId, new Set());
+    byRoom.get(roomId).add(ip);
+  };
+  for (const s of await io.fetchSockets()) {
+    if (!s.data.ip || !s.data.room) continue;
+    add(ipsByRoom, s.data.room, s.data.ip);
+    for (const roomId of s.data.listening || []) add(listenerIpsByRoom, roomId, s.data.ip);
   }
-  return ips.size;
+  for (const { ip, room } of lingeringSessions.values()) add(ipsByRoom, room, ip);
+  const counts = (byRoom) => new Map([...byRoom].map(([roomId, ips]) => [roomId, ips.size]));
+  return { present: counts(ipsByRoom), listening: counts(listenerIpsByRoom) };
 }
 
-function getRoomList() {
+/** @param {WitchServer} io */
+async function getRoomList(io) {
+  const presence = await getPresenceByRoom(io);
+  /** @type {import("./lib/protocol").RoomListItem[]} */
   const publicRooms = [];
   for (const [id, room] of rooms) {
     if (!room.secret) {
       publicRooms.push({
         id: room.id,
         title: room.title,
-        presence: 0, // Will be filled in by caller
+        description: room.description,
+        presence: presence.present.get(id) || 0,
+        listeners: presence.listening.get(id) || 0,
+        mood: computeCurrentMood(room.sentiment),
         lastActivity: room.lastActivity,
+        ...(room.schedule ? { opening: schedules.status(room.schedule) } : {}),
+        ...(room.parentId ? { parentId: room.parentId } : {}),
       });
     }
   }
   return publicRooms;
 }
 
+/** @param {WitchServer} io */
+async function broadcastRoomList(io) {
+  try {
+    io.emit("room-list", await getRoomList(io));
+  } catch (err) {
+    logger.error("Room list broadcast failed", { error: err.message });
+  }
+}
+
+// Live room directory: every few seconds, if something marked it changed, each node diffs the public list
+// against what it last pushed and sends only the rooms that changed (presence, mood, activity, hours) or
+// went away to its own clients. Quiet ticks cost nothing, not even a cross-node presence count
+const DIRECTORY_PUSH_MS = 5 * 1000;
+let directorySnapshot = new Map(); // roomId -> the room's list entry as last pushed from this node (JSON)
+let directoryChanged = false;
+let presenceChangeSent = false; // Other nodes already told this tick
+
+// Note a change that shows in the room list. Messages, activity and mood reach every node's replica of
+// the room, but presence is only seen where it changed, so other nodes are told (once a tick at most)
+function markDirectoryChanged({ presence = false } = {}) {
+  directoryChanged = true;
+  if (presence && !presenceChangeSent) {
+    presenceChangeSent = true;
+    syncNodes("directory-changed");
+  }
+}
+
+/** @param {WitchServer} io */
+async function pushDirectoryUpdates(io) {
+  presenceChangeSent = false;
+  if (!directoryChanged || io.sockets.sockets.size === 0) return; // Nothing new, or nobody here to tell yet
+  directoryChanged = false; // Changes made while the list is gathered wait for the next tick
+  let list;
+  try {
+    list = await getRoomList(io);
+  } catch (err) {
+    directoryChanged = true;
+    throw err;
+  }
+  const next = new Map(list.map((item) => [item.id, JSON.stringify(item)]));
+  const changed = list.filter((item) => directorySnapshot.get(item.id) !== next.get(item.id));
+  const removed = [...directorySnapshot.keys()].filter((id) => !next.has(id));
+  directorySnapshot = next;
+  if (changed.length > 0 || removed.length > 0) io.local.emit("room-list-update", { rooms: changed, removed });
+}
+
+/** @param {WitchServer} io */
+function startDirectoryTimer(io) {
+  if (directoryTimer) clearInterval(directoryTimer);
+  directoryTimer = setInterval(() => {
+    pushDirectoryUpdates(io).catch((err) => logger.error("Directory update failed", { error: err.message }));
+  }, DIRECTORY_PUSH_MS);
+}
+
+// Find a socket in a room on any node - by socket id, or by color (legacy)
+/** @param {WitchServer} io */
+async function findRoomSocket(io, roomId, { socketId, color }) {
+  let sockets;
+  try {
+    sockets = await io.in(roomId).fetchSockets();
+  } catch (err) {
+    // Another node didn't answer in time - treat the target as unreachable
+    logger.error("Socket lookup failed", { roomId, error: err.message });
+    return null;
+  }
+  if (socketId) return sockets.find((s) => s.id === socketId) || null;
+  return sockets.find((s) => s.data.color === color) || null;
+}
+
 // DM key is sorted colors + roomId to ensure consistency and room scoping (Issue #1)
 function getDMKey(color1, color2, roomId) {
   return `${roomId}:${[color1, color2].sort().join(":")}`;
 }
 
-// Presence Ghosts: track recently departed users (per-room in room.presenceGhosts)
-const GHOST_DURATION_MS = 3 * 60 * 1000; // 3 minutes
-const AWAY_TIMEOUT_MS = 2 * 60 * 1000; // 2 minutes before auto-disconnect when away
+// Presence Ghosts: track recently departed users (per-room in room.presenceGhosts, for the room's presenceGhostMs)
+const SESSION_GRACE_MS = 30 * 1000; // Reconnects within 30s resume the previous session silently
 
-// Banned IPs (in-memory, resets on restart - could persist to Redis)
-const bannedIPs = new Set();
+// Bans live in lib/bans.js (persisted, with expiry); these wrappers also update the other nodes
+/**
+ * @param {{ ip?: string | null, clientId?: string | null, label?: string | null }} target
+ * @param {{ reason: string, moderator?: string, durationMs?: number | null }} options
+ * @returns {Ban | null}
+ */
+function banUser(target, { reason, moderator = "system", durationMs = null }) {
+  const ban = bans.addBan({ ...target, reason, moderator, durationMs });
+  if (!ban) return null;
+  syncNodes("ban-added", ban);
+  logger.info("Ban added", { banId: ban.id, reason, moderator, expiresAt: ban.expiresAt });
+  return ban;
+}
+
+/** @returns {Ban | null} */
+function unbanUser(banId) {
+  const ban = bans.removeBan(banId);
+  if (!ban) return null;
+  syncNodes("ban-removed", banId);
+  strikes.pardon(ban); // A lifted ban starts them back at the bottom of the ladder
+  logger.info("Ban lifted", { banId, reason: ban.reason });
+  return ban;
+}
+
+// What a banned client is told
+/** @param {Ban} ban */
+function banNotice(ban) {
+  return { reason: ban.reason, expiresAt: ban.expiresAt };
+}
+
+function startBanSweepTimer() {
+  if (banSweepTimer) clearInterval(banSweepTimer);
+  banSweepTimer = setInterval(() => {
+    for (const ban of bans.pruneExpired()) {
+      logger.info("Ban expired", { banId: ban.id, reason: ban.reason });
+    }
+    // Lapsed mutes go too (getMutedUntil also drops them lazily)
+    const now = Date.now();
+    for (const [key, until] of mutes) {
+      if (until <= now) mutes.delete(key);
+    }
+    for (const [key, attempts] of accessAttempts) {
+      if (attempts.every((ts) => now - ts >= RATE_LIMITS.roomAccess.windowMs)) accessAttempts.delete(key);
+    }
+    spam.sweep(now);
+    reports.pruneResolved();
+  }, 60 * 1000);
+}
+
+// Moderators: a socket becomes one by presenting MOD_SECRET (mod-auth). Without it set, nobody can.
+const MOD_SECRET = process.env.MOD_SECRET || "";
+const mutes = new Map(); // clientId (or IP when there is none) -> muted until (ms)
+
+function checkModSecret(secret) {
+  if (!MOD_SECRET) return false;
+  // Compare digests so the check takes the same time whatever the input length
+  const given = crypto.createHash("sha256").update(secret).digest();
+  const expected = crypto.createHash("sha256").update(MOD_SECRET).digest();
+  return crypto.timingSafeEqual(given, expected);
+}
+
+function muteKey(data) {
+  return data.clientId || data.ip;
+}
+
+// Returns when the mute ends, or 0 if not muted
+function getMutedUntil(data) {
+  const key = muteKey(data);
+  const until = mutes.get(key) || 0;
+  if (until && until <= Date.now()) {
+    mutes.delete(key);
+    return 0;
+  }
+  return until;
+}
+
+function muteUser(data, minutes) {
+  const key = muteKey(data);
+  const until = Date.now() + minutes * 60 * 1000;
+  mutes.set(key, until);
+  syncNodes("mute-added", key, until);
+  return until;
+}
+
+// Carry out one step of the strike ladder against a sender (lib/strikes.js)
+/**
+ * @param {WitchServer} io
+ * @param {WitchSocket} socket
+ * @param {string} roomId
+ * @param {{ strikes: number, step: StrikeStep, next: StrikeStep | null }} strike
+ * @param {{ reason: string, maskedText: string, cause: string }} offence
+ */
+function applyStrike(io, socket, roomId, { strikes: count, step, next }, { reason, maskedText, cause }) {
+  const { data } = socket;
+  metrics.recordModeration(step.action, cause);
+  logger.info("Strike", { socketId: socket.id, strikes: count, action: step.action, minutes: step.minutes, cause });
+  audit.record({
+    action: step.action,
+    target: auditParty(data),
+    roomId,
+    reason: cause,
+    details: { strikes: count, ...(step.minutes ? { minutes: step.minutes } : {}) },
+  });
+
+  // A warning stays between the server and the sender: the message goes nowhere
+  if (step.action === "warn") {
+    socket.emit("warned", { reason, strikes: count, next });
+    return;
+  }
+
+  // Past a warning the room sees the message, masked; a ban also costs the sender their anonymity
+  const banning = step.action === "ban";
+  const handle = banning ? data.handle || `anon-${data.color.slice(1, 4)}` : data.handle || null;
+  io.to(roomId).emit("message", {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    text: maskedText,
+    color: data.color || "#7b5278",
+    handle,
+    tag: data.tag || null,
+    sigil: data.sigil || null,
+    whisper: false,
+    ts: Date.now(),
+    flagged: true, // Mark as moderated
+  });
+
+  if (!banning) {
+    const until = muteUser(data, step.minutes);
+    socket.emit("muted", { reason, until, strikes: count, next });
+    return;
+  }
+
+  io.to(roomId).emit("user-banned", { color: data.color, handle, reason: cause });
+  const ban = banUser(
+    { ip: data.ip, clientId: data.clientId, label: handle },
+    { reason, moderator: "auto", durationMs: step.minutes ? step.minutes * 60 * 1000 : null }
+  );
+  socket.emit("banned", { ...(ban ? banNotice(ban) : { reason, expiresAt: null }), strikes: count, next });
+  socket.disconnect(true);
+}
+
+// Hide a reported message for everyone (or bring it back): stored copies, replicas and clients
+/** @param {WitchServer} io */
+function setMessageHidden(io, roomId, messageId, hidden) {
+  const room = rooms.get(roomId);
+  const msg = room && room.messages.find((m) => m.id === messageId);
+  if (msg) msg.hidden = hidden;
+  redis.updateMessage(roomId, messageId, { hidden });
+  syncNodes("message-hidden", roomId, messageId, hidden);
+  io.to(roomId).emit(hidden ? "message-hidden" : "message-restored", { messageId });
+}
+
+// Tell the room's moderators (on any node) that the spam scorer is acting on someone
+/**
+ * @param {WitchServer} io
+ * @param {WitchSocket} socket
+ * @param {string} roomId
+ * @param {{ score: number, action: string, signals: string[] }} result
+ */
+function reportSpam(io, socket, roomId, { score, action, signals }) {
+  const { data } = socket;
+  metrics.recordModeration(action, "spam");
+  logger.info("Spam action", { socketId: socket.id, roomId, score, action, signals });
+  audit.record({ action: `spam-${action}`, target: auditParty(data), roomId, reason: signals.join(", ") || null, details: { score } });
+  const flag = { color: data.color, handle: data.handle || null, score, action, signals, ts: Date.now() };
+  io.in(roomId)
+    .fetchSockets()
+    .then((sockets) => {
+      for (const s of sockets) {
+        if (s.data.moderator) s.emit("spam-flagged", /** @type {import("./lib/protocol").SpamFlag} */ (flag));
+      }
+    })
+    .catch((err) => logger.error("Spam report failed", { roomId, error: err.message }));
+}
+
+// How notices and listings name someone: their handle if revealed, else their color
+function userLabel(data) {
+  return data.handle || data.color;
+}
+
+// Someone as the audit log sees them (lib/audit.js hashes the identifiers)
+/** @param {Partial<import("./lib/protocol").SocketData>} data */
+function auditParty(data) {
+  return { ip: data.ip, clientId: data.clientId, label: userLabel(data) };
+}
+
+// Sockets in a room matching a moderation target (handle or #rrggbb color), on any node
+/** @param {WitchServer} io */
+async function findModTargets(io, roomId, target) {
+  const needle = target.trim().toLowerCase();
+  const sockets = await io.in(roomId).fetchSockets();
+  return sockets.filter(
+    (s) => s.data.color && (s.data.color.toLowerCase() === needle || (s.data.handle && s.data.handle.toLowerCase() === needle))
+  );
+}
+
+/**
+ * Tell the room about a moderation action
+ * @param {WitchServer} io
+ * @param {string} roomId
+ * @param {import("./lib/protocol").ModerationNotice["action"]} action
+ * @param {{ target?: string | null, subject?: { ip?: string | null, clientId?: string | null, label?: string | null }, reason?: string | null, minutes?: number, linkMode?: import("./lib/protocol").LinkMode | null, by: import("./lib/protocol").SocketData }} details
+ *   subject is who the action was taken against, for the audit log; by is the acting moderator's socket data
+ */
+function sendModerationNotice(io, roomId, action, { target = null, subject, reason = null, minutes, linkMode, by }) {
+  io.to(roomId).emit("moderation-notice", {
+    action, target, reason, ...(minutes ? { minutes } : {}), ...(linkMode !== undefined ? { linkMode } : {}), ts: Date.now(),
+  });
+  metrics.recordModeration(action, "moderator");
+  logger.info("Moderation action", { action, roomId, target, reason, minutes, linkMode, by: userLabel(by) });
+  audit.record({
+    action,
+    actor: { type: "moderator", ...auditParty(by) },
+    target: subject || (target ? { label: target } : null),
+    roomId,
+    reason,
+    details: minutes || linkMode !== undefined ? { ...(minutes ? { minutes } : {}), ...(linkMode !== undefined ? { linkMode } : {}) } : undefined,
+  });
+}
+
+// Tell everyone in a room (on any node) that its title, description or secrecy changed
+/** @param {WitchServer} io */
+function announceRoomInfo(io, room) {
+  io.to(room.id).emit("room-info", getRoomInfo(room));
+  io.to(room.id).emit("room-title", room.title);
+}
+
+// Passes for everyone in a room that just went secret, so nobody inside gets shut out on their way back
+/** @param {WitchServer} io */
+async function grantPasses(io, room) {
+  try {
+    for (const s of await io.in(room.id).fetchSockets()) {
+      if (s.data.clientId) s.emit("room-pass", { roomId: room.id, pass: roomAccess.createPass(room, s.data.clientId) });
+    }
+  } catch (err) {
+    logger.error("Room passes failed", { roomId: room.id, error: err.message });
+  }
+}
+
+// Let a socket into a room, or tell it why not: scheduled rooms must be open (moderators excepted),
+// secret rooms check credentials (lib/room-access.js). Listening needs the same as going in
+/**
+ * @param {WitchSocket} socket
+ * @param {RoomMeta & import("./lib/room-access").AccessRoom} room as kept on this node (getOrCreateRoom), access fields always set
+ * @param {import("./lib/protocol").RoomCredentials} credentials
+ * @param {{ listening?: boolean }} [options] listening: refusals go out as listen-failed
+ * @returns {Promise<boolean>}
+ */
+async function admitToRoom(socket, room, { passphrase, invite, pass }, { listening = false } = {}) {
+  /** @param {import("./lib/protocol").Reason & { roomId: string, needsPassphrase?: boolean, opensAt?: number | null }} refusal */
+  const refuse = (refusal) => {
+    if (listening) socket.emit("listen-failed", { reason: refusal.reason, roomId: refusal.roomId });
+    else socket.emit("room-switch-failed", refusal);
+  };
+  const opening = schedules.status(room.schedule);
+  if (!opening.open && !socket.data.moderator) {
+    refuse({ reason: schedules.closedReason(room.title, opening), roomId: room.id, opensAt: opening.opensAt });
+    return false;
+  }
+  if (!room.secret || canKeep(socket, room)) return true;
+  if (passphrase && !checkAccessAttempt(socket)) {
+    refuse({ reason: "Too many passphrase attempts. Please wait.", roomId: room.id, needsPassphrase: true });
+    return false;
+  }
+  const access = await roomAccess.checkAccess(room, { clientId: socket.data.clientId, passphrase, invite, pass });
+  if (access.ok === false) {
+    refuse({ reason: access.reason, roomId: room.id, needsPassphrase: access.needsPassphrase });
+    logger.info("Room access denied", { socketId: socket.id, roomId: room.id, reason: access.reason });
+    return false;
+  }
+  if (access.pass) socket.emit("room-pass", { roomId: room.id, pass: access.pass });
+  if (access.via !== "pass") logger.info("Room access granted", { socketId: socket.id, roomId: room.id, via: access.via });
+  return true;
+}
+
+// Invite to a secret room, with the web app path that uses it
+/** @returns {import("./lib/protocol").RoomInvite} */
+function createRoomInvite(room, limits) {
+  const { token, expiresAt, maxUses } = roomAccess.createInvite(room, limits);
+  const link = `/r/${encodeURIComponent(room.id)}?invite=${encodeURIComponent(token)}`;
+  return { roomId: room.id, token, link, expiresAt, maxUses };
+}
+
+// The rooms a socket listens to, as it sees them
+/** @param {WitchSocket} socket */
+function sendListening(socket) {
+  socket.emit("listening", socket.data.listening
+    .filter((roomId) => rooms.has(roomId))
+    .map((roomId) => {
+      const room = rooms.get(roomId);
+      return { id: room.id, title: room.title, mood: computeCurrentMood(room.sentiment) };
+    }));
+}
+
+// Stop a socket listening to a room (it went in, asked to stop, or the room went away)
+/**
+ * @param {WitchServer} io
+ * @param {WitchSocket} socket
+ * @param {string} roomId
+ * @returns {boolean} whether it was listening
+ */
+function stopListening(io, socket, roomId) {
+  if (!socket.data.listening.includes(roomId)) return false;
+  socket.data.listening = socket.data.listening.filter((id) => id !== roomId);
+  socket.leave(listenChannel(roomId));
+  sendListening(socket);
+  broadcastPresence(io, roomId);
+  return true;
+}
+
+// Move a socket, already admitted, from the room it speaks in to another, leaving a ghost behind
+/**
+ * @param {WitchServer} io
+ * @param {WitchSocket} socket
+ * @param {string} roomId
+ */
+async function moveToRoom(io, socket, roomId) {
+  const currentRoomId = socketToRoom.get(socket.id);
+  if (currentRoomId) {
+    socket.leave(currentRoomId);
+    addPresenceGhost(socket.data.color, socket.data.handle, currentRoomId);
+    broadcastPresence(io, currentRoomId);
+    broadcastAttention(io, currentRoomId);
+    io.to(currentRoomId).emit("presence-ghosts", getPresenceGhosts(currentRoomId));
+  }
+
+  const room = getOrCreateRoom(roomId);
+  stopListening(io, socket, roomId); // Listening turns into being there
+  socket.join(roomId);
+  socketToRoom.set(socket.id, roomId);
+  socket.data.room = roomId;
+
+  broadcastPresence(io, roomId);
+  broadcastAttention(io, roomId);
+
+  // Send room state using helper (Issue #6)
+  await sendRoomState(socket, io, room, roomId);
+}
+
+// Branches: who follows a tangent out of its parent is gathered for a while, then the parent hears
+// "x and y drifted to #branch". Each node gathers and tells about its own sockets
+const BRANCH_DRIFT_WINDOW_MS = 30 * 1000;
+const branchDrifts = new Map(); // branch roomId -> { parentId, handles, anonymous, timer }
+
+// "alice and bob", "alice and 2 others", "someone", "3 people"
+function describeDrifters(handles, anonymous) {
+  if (handles.length === 0) return anonymous === 1 ? "someone" : `${anonymous} people`;
+  const names = anonymous === 0 ? handles : [...handles, anonymous === 1 ? "someone else" : `${anonymous} others`];
+  return names.length === 1 ? names[0] : `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
+
+/** @param {WitchServer} io */
+function startBranchDrift(io, branchId, parentId) {
+  const timer = setTimeout(() => {
+    const drift = branchDrifts.get(branchId);
+    branchDrifts.delete(branchId);
+    if (!drift || !rooms.has(parentId) || (drift.handles.length === 0 && drift.anonymous === 0)) return;
+    io.to(parentId).emit("system-notice", { text: `${describeDrifters(drift.handles, drift.anonymous)} drifted to #${branchId}`, ts: Date.now() });
+  }, BRANCH_DRIFT_WINDOW_MS);
+  branchDrifts.set(branchId, { parentId, handles: [], anonymous: 0, timer });
+}
+
+// Count a move from a room into a branch of it that is still gathering
+/** @param {WitchSocket} socket */
+function noteDrift(socket, fromRoomId, toRoomId) {
+  const drift = branchDrifts.get(toRoomId);
+  if (!drift || drift.parentId !== fromRoomId) return;
+  if (socket.data.handle) drift.handles.push(socket.data.handle);
+  else drift.anonymous++;
+}
 
 // Get client IP from socket (handles Cloudflare and other proxies)
+/** @param {WitchSocket} socket */
 function getClientIP(socket) {
   const headers = socket.handshake.headers;
   // Cloudflare's real IP header
   if (headers["cf-connecting-ip"]) {
-    return headers["cf-connecting-ip"];
+    return String(headers["cf-connecting-ip"]);
   }
   // Standard proxy header
   if (headers["x-forwarded-for"]) {
-    return headers["x-forwarded-for"].split(",")[0].trim();
+    return String(headers["x-forwarded-for"]).split(",")[0].trim();
   }
   // True-Client-IP (some CDNs)
   if (headers["true-client-ip"]) {
-    return headers["true-client-ip"];
+    return String(headers["true-client-ip"]);
   }
   return socket.handshake.address;
 }
@@ -161,12 +866,19 @@ const RATE_LIMITS = {
   typing: { max: 10, windowMs: 1000 },      // 10 typing events per second
   join: { max: 5, windowMs: 10000 },        // 5 joins per 10 seconds (allows reconnects)
   createRoom: { max: 3, windowMs: 60000 },  // 3 room creations per minute (Issue #4)
+  invalid: { max: 5, windowMs: 60000, weight: 10 }, // Malformed payloads; each counts 10x toward abuse
+  modAuth: { max: 5, windowMs: 60000 },     // 5 moderator secret attempts per minute
+  report: { max: 5, windowMs: 60000 },      // 5 message reports per minute
+  roomAccess: { max: 5, windowMs: 60000 },  // 5 secret-room passphrase attempts per minute, per IP
+  invite: { max: 10, windowMs: 60000 },     // 10 invites per minute
+  roomEdit: { max: 10, windowMs: 60000 },   // 10 keeper changes per minute
+  listen: { max: 10, windowMs: 60000 },     // 10 rooms listened to per minute
   total: { max: 200, windowMs: 60000 },     // 200 events per minute (abuse threshold)
 };
 
 function getRateLimitBucket(socketId) {
   if (!rateLimits.has(socketId)) {
-    rateLimits.set(socketId, { message: [], typing: [], join: [], createRoom: [], total: [] });
+    rateLimits.set(socketId, { message: [], typing: [], join: [], createRoom: [], invalid: [], modAuth: [], report: [], invite: [], roomEdit: [], listen: [], total: [] });
   }
   return rateLimits.get(socketId);
 }
@@ -183,20 +895,41 @@ function checkRateLimit(socketId, eventType) {
 
   // Check total abuse threshold
   if (bucket.total.length >= RATE_LIMITS.total.max) {
+    metrics.recordRateLimited(eventType, "abuse");
     return { allowed: false, reason: "abuse", remaining: 0 };
   }
 
   // Check specific limit
   if (bucket[eventType].length >= config.max) {
+    metrics.recordRateLimited(eventType, "rate-limited");
     return { allowed: false, reason: "rate-limited", remaining: 0 };
   }
 
   // Record this event
   bucket[eventType].push(now);
-  bucket.total.push(now);
+  for (let i = 0; i < (config.weight || 1); i++) bucket.total.push(now);
   return { allowed: true, remaining: config.max - bucket[eventType].length };
 }
 
+// Passphrase attempts are counted per IP rather than per socket, so reconnecting doesn't start them over
+const accessAttempts = new Map(); // IP (or clientId) -> attempt timestamps
+
+/** @param {WitchSocket} socket */
+function checkAccessAttempt(socket) {
+  const key = socket.data.ip || socket.data.clientId || getClientIP(socket);
+  const { max, windowMs } = RATE_LIMITS.roomAccess;
+  const now = Date.now();
+  const recent = (accessAttempts.get(key) || []).filter((ts) => now - ts < windowMs);
+  if (recent.length >= max) {
+    accessAttempts.set(key, recent);
+    metrics.recordRateLimited("roomAccess", "rate-limited");
+    return false;
+  }
+  recent.push(now);
+  accessAttempts.set(key, recent);
+  return true;
+}
+
 function cleanupRateLimits(socketId) {
   rateLimits.delete(socketId);
 }
@@ -205,6 +938,7 @@ function cleanupRateLimits(socketId) {
 const HEX_COLOR_REGEX = /^#[0-9a-fA-F]{6}$/;
 const HANDLE_REGEX = /^[a-zA-Z0-9 ]{1,32}$/;
 const TAG_REGEX = /^[a-zA-Z0-9]{1,16}$/;
+const CLIENT_ID_REGEX = /^[a-zA-Z0-9-]{1,64}$/;
 
 // Hashtag extraction for topic subscriptions
 const HASHTAG_REGEX = /#[a-zA-Z0-9_]{1,32}/g;
@@ -236,6 +970,11 @@ function validateSigil(sigil) {
   return SIGILS.includes(sigil) ? sigil : null;
 }
 
+function validateClientId(clientId) {
+  if (!clientId || typeof clientId !== "string") return null;
+  return CLIENT_ID_REGEX.test(clientId) ? clientId : null;
+}
+
 function getMoodFromScore(avgScore) {
   if (avgScore < -0.4) return MOOD_INTENSE;
   if (avgScore > 0.4) return MOOD_CALM;
@@ -252,55 +991,55 @@ function energyPenalty(text) {
 }
 
 function computeCurrentMood(history) {
-  const hist = history || sentimentHistoryCache;
-  if (hist.length === 0) return MOOD_NEUTRAL;
-  const avg = hist.reduce((a, b) => a + b, 0) / hist.length;
+  if (history.length === 0) return MOOD_NEUTRAL;
+  const avg = history.reduce((a, b) => a + b, 0) / history.length;
   return getMoodFromScore(avg);
 }
 
-async function computeCurrentMoodAsync() {
-  const history = await redis.getSentimentHistory(MAX_SENTIMENT_HISTORY);
-  sentimentHistoryCache = history;
-  return computeCurrentMood(history);
-}
-
-function broadcastPresence(io, roomId = null) {
-  if (roomId) {
-    // Broadcast to specific room
-    const presence = getRoomPresence(io, roomId);
-    io.to(roomId).emit("presence", presence);
-  } else {
-    // Legacy: broadcast global presence (for backward compat during transition)
-    const uniqueIPs = new Set(socketIdToIP.values()).size;
-    io.emit("presence", uniqueIPs);
+/** @param {WitchServer} io */
+async function broadcastPresence(io, roomId = null) {
+  try {
+    if (roomId) {
+      markDirectoryChanged({ presence: true });
+      // Broadcast to specific room
+      const [presence, listeners] = await Promise.all([getRoomPresence(io, roomId), getRoomListeners(io, roomId)]);
+      io.to(roomId).emit("presence", presence);
+      io.to(roomId).emit("listeners", listeners);
+    } else {
+      // Legacy: broadcast global presence (for backward compat during transition)
+      const sockets = await io.fetchSockets();
+      io.emit("presence", new Set(sockets.map((s) => s.data.ip).filter(Boolean)).size);
+    }
+  } catch (err) {
+    logger.error("Presence broadcast failed", { roomId, error: err.message });
   }
 }
 
-// Get attention state - who's focused vs away vs stepping away
-function getAttentionState(io, roomId = null) {
-  const state = [];
-  for (const [socketId, focused] of socketFocused) {
-    const sock = io.sockets.sockets.get(socketId);
-    if (sock && sock.userColor) {
-      // If roomId specified, only include users in that room
-      if (roomId && socketToRoom.get(socketId) !== roomId) continue;
-      state.push({
-        id: socketId, // Issue #3: Include socket.id for unique DM targeting
-        color: sock.userColor,
-        handle: sock.userHandle || null,
-        focused: focused,
-        steppingAway: socketAway.get(socketId) || false,
-      });
-    }
-  }
-  return state;
+// Get attention state - who's focused vs away vs stepping away (across every node)
+/** @param {WitchServer} io */
+async function getAttentionState(io, roomId = null) {
+  const sockets = roomId ? await io.in(roomId).fetchSockets() : await io.fetchSockets();
+  return sockets
+    .filter((s) => s.data.color && s.data.ip) // Only sockets that have joined
+    .map((s) => ({
+      id: s.id, // Issue #3: Include socket.id for unique DM targeting
+      color: s.data.color,
+      handle: s.data.handle || null,
+      focused: s.data.focused !== false,
+      steppingAway: s.data.steppingAway || false,
+    }));
 }
 
-function broadcastAttention(io, roomId = null) {
-  if (roomId) {
-    io.to(roomId).emit("attention", getAttentionState(io, roomId));
-  } else {
-    io.emit("attention", getAttentionState(io));
+/** @param {WitchServer} io */
+async function broadcastAttention(io, roomId = null) {
+  try {
+    if (roomId) {
+      io.to(roomId).emit("attention", await getAttentionState(io, roomId));
+    } else {
+      io.emit("attention", await getAttentionState(io));
+    }
+  } catch (err) {
+    logger.error("Attention broadcast failed", { roomId, error: err.message });
   }
 }
 
@@ -309,7 +1048,7 @@ function cleanPresenceGhosts(roomId) {
   const room = rooms.get(roomId);
   if (!room) return;
   const now = Date.now();
-  while (room.presenceGhosts.length > 0 && now - room.presenceGhosts[0].leftAt > GHOST_DURATION_MS) {
+  while (room.presenceGhosts.length > 0 && now - room.presenceGhosts[0].leftAt > room.settings.presenceGhostMs) {
     room.presenceGhosts.shift();
   }
 }
@@ -319,7 +1058,14 @@ function addPresenceGhost(color, handle, roomId) {
   const room = rooms.get(roomId);
   if (!room) return;
   cleanPresenceGhosts(roomId);
-  room.presenceGhosts.push({ color, handle, leftAt: Date.now() });
+  const ghost = { color, handle, leftAt: Date.now() };
+  pushPresenceGhost(room, ghost);
+  redis.setGhosts(roomId, room.presenceGhosts);
+  syncNodes("room-ghost", roomId, ghost);
+}
+
+function pushPresenceGhost(room, ghost) {
+  room.presenceGhosts.push(ghost);
   // Keep max 10 ghosts per room
   while (room.presenceGhosts.length > 10) {
     room.presenceGhosts.shift();
@@ -335,41 +1081,123 @@ function getPresenceGhosts(roomId) {
   return room.presenceGhosts.map((g) => ({
     color: g.color,
     handle: g.handle,
-    fade: Math.min(1, (now - g.leftAt) / GHOST_DURATION_MS),
+    fade: Math.min(1, (now - g.leftAt) / room.settings.presenceGhostMs),
   }));
 }
 
+// Auto-disconnect after prolonged stepping away (the room's awayMs)
+/** @param {WitchSocket} socket */
+function startAwayTimer(socket) {
+  if (awayTimers.has(socket.id)) clearTimeout(awayTimers.get(socket.id));
+  const room = rooms.get(socket.data.room);
+  const awayMs = room ? room.settings.awayMs : streamSettings.DEFAULT_SETTINGS.awayMs;
+  awayTimers.set(socket.id, setTimeout(() => {
+    if (socket.data.steppingAway) {
+      socket.disconnect(true);
+    }
+  }, awayMs));
+}
+
+// Session resumption: an unexpected disconnect keeps the session for SESSION_GRACE_MS.
+// The departure (ghost, presence, attention) is only announced if nobody reclaims it in time.
+/** @param {WitchSocket} socket */
+function lingerSession(socket, roomId) {
+  const { clientId } = socket.data;
+  redis.saveSession(clientId, {
+    color: socket.data.color,
+    handle: socket.data.handle,
+    tag: socket.data.tag,
+    sigil: socket.data.sigil,
+    room: roomId,
+    steppingAway: socket.data.steppingAway || false,
+    // Not moderator: a resumed session rests on nothing but the clientId, so /mod is asked for again
+  }, SESSION_GRACE_MS * 2); // Outlives the timer so expiry can still tell "resumed" from "gone"
+
+  const existing = lingeringSessions.get(clientId);
+  if (existing) clearTimeout(existing.timer);
+  lingeringSessions.set(clientId, {
+    ip: socket.data.ip,
+    room: roomId,
+    timer: setTimeout(() => expireSession(clientId), SESSION_GRACE_MS),
+  });
+}
+
+// Claim a lingering session for a reconnecting client (null if there is none or it expired)
+async function resumeSession(clientId) {
+  const entry = lingeringSessions.get(clientId);
+  if (entry) {
+    clearTimeout(entry.timer);
+    lingeringSessions.delete(clientId);
+  }
+  return redis.takeSession(clientId);
+}
+
+async function expireSession(clientId) {
+  lingeringSessions.delete(clientId);
+  const session = await redis.takeSession(clientId);
+  if (!session) return; // Resumed, possibly on another node
+
+  // Still connected from another tab (or the reconnect beat our disconnect) - not a departure
+  const sockets = await io.in(session.room).fetchSockets().catch(() => []);
+  if (sockets.some((s) => s.data.clientId === clientId)) return;
+
+  addPresenceGhost(session.color, session.handle, session.room);
+  io.to(session.room).emit("presence-ghosts", getPresenceGhosts(session.room));
+  broadcastPresence(io, session.room);
+  broadcastAttention(io, session.room);
+}
+
 // Track message resonance (copy events)
-function addResonance(messageId) {
-  const current = messageResonance.get(messageId) || 0;
-  messageResonance.set(messageId, current + 1);
+function addResonance(messageId, roomId) {
+  const count = getResonance(messageId) + 1;
+  messageResonance.set(messageId, { roomId, count });
   // Schedule cleanup
   setTimeout(() => {
     messageResonance.delete(messageId);
   }, RESONANCE_DECAY_MS);
-  return current + 1;
+  return count;
 }
 
 function getResonance(messageId) {
-  return messageResonance.get(messageId) || 0;
+  const resonance = messageResonance.get(messageId);
+  return resonance ? resonance.count : 0;
 }
 
 // Issue #6: Extract shared room state sending logic to reduce duplication
-function sendRoomState(socket, io, room, roomId) {
+/**
+ * @param {WitchSocket} socket
+ * @param {WitchServer} io
+ */
+async function sendRoomState(socket, io, room, roomId, { resumed = false } = {}) {
   socket.emit("room-joined", {
-    id: room.id, // Fix: match RoomInfo type (was "roomId")
-    title: room.title,
-    secret: room.secret,
+    ...getRoomInfo(room),
+    keeper: !!room.keeper && room.keeper === socket.data.clientId,
+    resumed,
   });
 
-  socket.emit("ghosts", room.messages.slice(-MAX_MESSAGES));
+  // A resumed session was here for these messages, so they come back as the live stream, not ghosts
+  if (resumed) socket.emit("stream", recentMessages(room, keptMessages(room)));
+  else socket.emit("ghosts", recentMessages(room, room.settings.ghostMessages));
   socket.emit("mood", computeCurrentMood(room.sentiment));
   socket.emit("room-title", room.title);
   socket.emit("presence-ghosts", getPresenceGhosts(roomId));
   socket.emit("silence", { settled: room.silenceState, since: room.lastActivity });
 
+  if (resumed) {
+    // Crosstalk this user is part of carries on; re-announce it to them only
+    for (const [dmKey, dm] of activeDMs) {
+      if (dmKey.startsWith(`${roomId}:`) && dm.participants.includes(socket.data.color)) {
+        socket.emit("crosstalk", {
+          participants: dm.participants.map((color, i) => ({ color, handle: dm.handles[i] })),
+          ts: dm.lastActivity,
+        });
+      }
+    }
+    return; // No arrival vibe - they never left
+  }
+
   // Send arrival vibe
-  const roomPresence = getRoomPresence(io, roomId);
+  const roomPresence = await getRoomPresence(io, roomId).catch(() => 0);
   const timeSinceActivity = room.lastActivity ? Math.floor((Date.now() - room.lastActivity) / 1000) : null;
   let quietFor = null;
   if (timeSinceActivity !== null) {
@@ -385,27 +1213,71 @@ function sendRoomState(socket, io, room, roomId) {
   });
 }
 
+// Move this node's sockets out of a room that is going away (or closing) into main (every node moves its own)
+/**
+ * @param {WitchServer} io
+ * @param {string} roomId
+ * @param {string} [notice] what they're told; defaults to the room being closed
+ */
+async function evacuateRoom(io, roomId, notice) {
+  const room = rooms.get(roomId);
+  if (!room || roomId === DEFAULT_ROOM_ID) return;
+  const main = getOrCreateRoom(DEFAULT_ROOM_ID);
+
+  // Sessions in their grace window resume into main instead
+  for (const entry of lingeringSessions.values()) {
+    if (entry.room === roomId) entry.room = DEFAULT_ROOM_ID;
+  }
+
+  // Listeners just lose the room
+  for (const socketId of [...(io.sockets.adapter.rooms.get(listenChannel(roomId)) || [])]) {
+    const socket = io.sockets.sockets.get(socketId);
+    if (socket) stopListening(io, socket, roomId);
+  }
+
+  const socketIds = [...(io.sockets.adapter.rooms.get(roomId) || [])];
+  for (const socketId of socketIds) {
+    const socket = io.sockets.sockets.get(socketId);
+    if (!socket) continue;
+    socket.leave(roomId);
+    socket.join(DEFAULT_ROOM_ID);
+    socketToRoom.set(socket.id, DEFAULT_ROOM_ID);
+    socket.data.room = DEFAULT_ROOM_ID;
+    socket.emit("system-notice", { text: notice || `${room.title} was closed`, ts: Date.now() });
+    await sendRoomState(socket, io, main, DEFAULT_ROOM_ID);
+  }
+  if (socketIds.length > 0) {
+    logger.info("Room evacuated", { roomId, sockets: socketIds.length });
+    broadcastPresence(io, DEFAULT_ROOM_ID);
+    broadcastAttention(io, DEFAULT_ROOM_ID);
+  }
+}
+
+/** @param {WitchServer} io */
 function checkSilence(io, roomId) {
   const room = rooms.get(roomId);
   if (!room) return;
   const now = Date.now();
-  const isSilent = now - room.lastActivity > SILENCE_THRESHOLD_MS;
+  const isSilent = now - room.lastActivity > room.settings.silenceMs;
 
+  // Every node runs this timer against its replica, so each only notifies its own sockets
   if (isSilent && !room.silenceState) {
     room.silenceState = true;
-    io.to(roomId).emit("silence", { settled: true, since: room.lastActivity });
+    io.local.to(roomId).emit("silence", { settled: true, since: room.lastActivity });
   } else if (!isSilent && room.silenceState) {
     room.silenceState = false;
-    io.to(roomId).emit("silence", { settled: false });
+    io.local.to(roomId).emit("silence", { settled: false });
   }
 }
 
+/** @param {WitchServer} io */
 function checkAllRoomsSilence(io) {
   for (const roomId of rooms.keys()) {
     checkSilence(io, roomId);
   }
 }
 
+/** @param {WitchServer} io */
 function startSilenceTimer(io) {
   if (silenceTimer) clearInterval(silenceTimer);
   silenceTimer = setInterval(() => checkAllRoomsSilence(io), 5000); // Check every 5s
@@ -416,71 +1288,530 @@ function recordActivity(roomId) {
   if (!room) return;
   room.lastActivity = Date.now();
   room.silenceState = false; // Immediately break silence locally
+  markDirectoryChanged();
+  if (room.lastActivity - room.lastActivitySync > ACTIVITY_SYNC_MS) {
+    room.lastActivitySync = room.lastActivity;
+    syncNodes("room-activity", roomId, room.lastActivity);
+  }
 }
 
+/** @param {WitchServer} io */
 function startMoodDecayTimer(io) {
   if (moodDecayTimer) clearInterval(moodDecayTimer);
   moodDecayTimer = setInterval(() => {
     const now = Date.now();
     for (const [roomId, room] of rooms) {
-      if (now - room.lastMessageTs > MOOD_DECAY_MS && room.sentiment.length > 0) {
+      if (now - room.lastMessageTs > room.settings.moodDecayMs && room.sentiment.length > 0) {
+        // Not written through: decay is recomputed from lastMessageTs on every node (and after restart)
         room.sentiment.push(0);
         if (room.sentiment.length > MAX_SENTIMENT_HISTORY) {
           room.sentiment.shift();
         }
-        io.to(roomId).emit("mood", computeCurrentMood(room.sentiment));
+        io.local.to(roomId).emit("mood", computeCurrentMood(room.sentiment));
+        io.local.to(listenChannel(roomId)).emit("room-pulse", { roomId, mood: computeCurrentMood(room.sentiment), message: false });
+        markDirectoryChanged();
       }
     }
   }, 60 * 1000);
 }
 
+// Scheduled rooms: warn occupants before closing time, then move them to main. Each node handles
+// its own sockets, so the state here is per node and never synced
+const ROOM_CLOSING_WARNING_MS = 5 * 60 * 1000;
+const scheduleStates = new Map(); // roomId -> { open, warnedFor } as of the last check (warnedFor: closesAt already warned about)
+
+/** @param {WitchServer} io */
+async function checkSchedules(io) {
+  const now = Date.now();
+  let listChanged = false;
+  for (const [roomId, room] of rooms) {
+    if (!room.schedule) continue;
+    const opening = schedules.status(room.schedule, now);
+    const state = scheduleStates.get(roomId) || { open: null, warnedFor: null };
+    scheduleStates.set(roomId, { ...state, open: opening.open });
+    if (state.open !== null && state.open !== opening.open && !room.secret) listChanged = true;
+
+    if (!opening.open) {
+      // Only on closing (or the first check after a restart or schedule change), so a moderator
+      // who goes in while it's closed isn't thrown out again
+      if (state.open !== false) await evacuateRoom(io, roomId, schedules.closedReason(room.title, opening, now));
+      continue;
+    }
+    if (opening.closesAt - now <= ROOM_CLOSING_WARNING_MS && state.warnedFor !== opening.closesAt) {
+      scheduleStates.set(roomId, { open: true, warnedFor: opening.closesAt });
+      io.local.to(roomId).emit("room-closing", { roomId, closesAt: opening.closesAt });
+    }
+  }
+  if (listChanged) {
+    // Every node notices on its own, so each updates only its own clients
+    try {
+      io.local.emit("room-list", await getRoomList(io));
+    } catch (err) {
+      logger.error("Room list broadcast failed", { error: err.message });
+    }
+  }
+}
+
+/** @param {WitchServer} io */
+function startScheduleTimer(io) {
+  if (scheduleTimer) clearInterval(scheduleTimer);
+  scheduleTimer = setInterval(() => {
+    checkSchedules(io).catch((err) => logger.error("Schedule check failed", { error: err.message }));
+  }, 10 * 1000);
+}
+
+// Idle rooms: reclaimed once nobody has been in them (or said anything) for ROOM_IDLE_MS, so dead rooms
+// don't fill MAX_ROOMS. Main and pinned rooms stay, and a scheduled room doesn't age while it's closed
+// between openings. Every node sweeps; whichever gets there first deletes the room everywhere
+/** @param {WitchServer} io */
+async function sweepIdleRooms(io) {
+  const presence = await getPresenceByRoom(io);
+  const now = Date.now();
+  let listChanged = false;
+  for (const [roomId, room] of rooms) {
+    if (roomId === DEFAULT_ROOM_ID || room.pinned) continue;
+    const opening = schedules.status(room.schedule, now);
+    // Someone listening from another room keeps it too
+    if (presence.present.get(roomId) || presence.listening.get(roomId) || (!opening.open && opening.opensAt !== null)) {
+      room.lastOccupied = now;
+      continue;
+    }
+    const idleSince = Math.max(room.lastOccupied, room.lastActivity);
+    if (now - idleSince < ROOM_IDLE_MS) continue;
+
+    syncNodes("room-deleted", roomId);
+    await evacuateRoom(io, roomId); // Anyone who got in since the presence count
+    removeRoom(roomId);
+    redis.deleteRoom(roomId);
+    if (!room.secret) listChanged = true;
+    logger.info("Idle room reclaimed", { roomId, idleMinutes: Math.round((now - idleSince) / 60000) });
+  }
+  if (listChanged) broadcastRoomList(io);
+}
+
+/** @param {WitchServer} io */
+function startRoomSweepTimer(io) {
+  if (roomSweepTimer) clearInterval(roomSweepTimer);
+  if (ROOM_IDLE_MS <= 0) return;
+  roomSweepTimer = setInterval(() => {
+    sweepIdleRooms(io).catch((err) => logger.error("Idle room sweep failed", { error: err.message }));
+  }, Math.min(60 * 1000, Math.max(1000, ROOM_IDLE_MS / 4)));
+}
+
 const serverStartTime = Date.now();
 
-// Initialize Redis
-redis.initRedis();
+// Admin HTTP API (lib/admin.js) - operator endpoints behind ADMIN_TOKEN
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || "";
+const DRAIN_DELAY_MS = 15 * 1000; // Default time clients get to move elsewhere before a drained node exits
+let isDraining = false;
+let drainTimer = null;
+
+// Stop taking connections, tell this node's clients to move on, then shut down
+function startDrain(delayMs) {
+  if (isDraining || isShuttingDown) return false;
+  isDraining = true;
+  logger.info("Drain started", { delayMs });
+  io.local.emit("server-shutdown", { message: "Server is restarting" });
+  drainTimer = setTimeout(() => gracefulShutdown("drain"), delayMs);
+  return true;
+}
+
+// Connected sockets are disconnected on their next join; an operator's ban kicks them now instead
+/** @param {Ban} ban */
+function disconnectBanned(ban) {
+  io.fetchSockets()
+    .then((sockets) => {
+      for (const s of sockets) {
+        if ((ban.ip && s.data.ip === ban.ip) || (ban.clientId && s.data.clientId === ban.clientId)) {
+          s.emit("banned", banNotice(ban));
+          s.disconnect(true);
+        }
+      }
+    })
+    .catch((err) => logger.error("Ban enforcement failed", { banId: ban.id, error: err.message }));
+}
+
+// Query-string times: epoch milliseconds or anything Date.parse reads; NaN if neither
+function parseTime(value) {
+  return /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+}
+
+const ADMIN_ACTOR = { type: /** @type {const} */ ("admin"), label: "admin" };
+
+const adminRoutes = {
+  "GET /admin/rooms": async () => {
+    const presence = await getPresenceByRoom(io);
+    // Secret rooms included - this is the operator's view
+    const list = [...rooms.values()].map((room) => ({
+      ...getAdminRoomMeta(room),
+      presence: presence.present.get(room.id) || 0,
+      listeners: presence.listening.get(room.id) || 0,
+      mood: computeCurrentMood(room.sentiment),
+      silent: room.silenceState,
+      ghosts: getPresenceGhosts(room.id).length,
+    }));
+    return admin.ok(list.sort((a, b) => b.lastActivity - a.lastActivity));
+  },
+
+  "GET /admin/rooms/:roomId/attention": async ({ roomId }) => {
+    if (!rooms.has(roomId)) return admin.fail(404, "Room not found");
+    return admin.ok(await getAttentionState(io, roomId));
+  },
+
+  "PATCH /admin/rooms/:roomId": ({ roomId }, { title }) => {
+    const room = rooms.get(roomId);
+    if (!room) return admin.fail(404, "Room not found");
+    if (roomId === DEFAULT_ROOM_ID) return admin.fail(409, "The main room's title comes from ROOM_TITLE");
+    const sanitizedTitle = title.trim().slice(0, 64);
+    if (!sanitizedTitle) return admin.fail(400, "Title must not be blank");
+    updateRoomMeta(room, { title: sanitizedTitle });
+    announceRoomInfo(io, room);
+    if (!room.secret) broadcastRoomList(io);
+    logger.info("Room renamed", { roomId, by: "admin" });
+    audit.record({ action: "rename-room", actor: ADMIN_ACTOR, roomId, reason: null });
+    return admin.ok(getAdminRoomMeta(room));
+  },
+
+  // Unlike delete-room from a client, occupied rooms go too; occupants land in main
+  "DELETE /admin/rooms/:roomId": async ({ roomId }) => {
+    const room = rooms.get(roomId);
+    if (!room) return admin.fail(404, "Room not found");
+    if (roomId === DEFAULT_ROOM_ID) return admin.fail(409, "Cannot delete the main room");
+    syncNodes("room-deleted", roomId);
+    metrics.recordModeration("delete-room", "admin");
+    await evacuateRoom(io, roomId);
+    removeRoom(roomId);
+    redis.deleteRoom(roomId);
+    logger.info("Room deleted", { roomId, by: "admin" });
+    audit.record({ action: "delete-room", actor: ADMIN_ACTOR, roomId, reason: null });
+    if (!room.secret) broadcastRoomList(io);
+    return admin.ok({ roomId });
+  },
+
+  // Spam scores live per node (lib/spam.js): these show and clear this node's
+  "GET /admin/spam": () => admin.ok(spam.snapshot()),
+
+  "DELETE /admin/spam/:key": ({ key }) => {
+    if (!spam.pardon(key)) return admin.fail(404, "No spam score for that sender");
+    metrics.recordModeration("spam-pardon", "admin");
+    audit.record({ action: "spam-pardon", actor: ADMIN_ACTOR, target: validateClientId(key) ? { clientId: key } : { ip: key } });
+    return admin.ok({ key });
+  },
+
+  "GET /admin/bans": () => admin.ok(bans.listBans()),
+
+  "POST /admin/bans": (_params, { ip, clientId, label, reason, minutes }) => {
+    if (!ip && !clientId) return admin.fail(400, "body needs an ip or a clientId");
+    if (clientId && !validateClientId(clientId)) return admin.fail(400, "body.clientId is not a valid client id");
+    const ban = banUser(
+      { ip: ip || null, clientId: clientId || null, label: label || null },
+      { reason, moderator: "admin", durationMs: minutes ? minutes * 60 * 1000 : null }
+    );
+    metrics.recordModeration("ban", "admin");
+    audit.record({ action: "ban", actor: ADMIN_ACTOR, target: ban, reason, details: minutes ? { minutes } : undefined });
+    disconnectBanned(ban);
+    return admin.ok(ban, 201);
+  },
+
+  "DELETE /admin/bans/:banId": ({ banId }) => {
+    const ban = unbanUser(banId);
+    if (!ban) return admin.fail(404, "Ban not found");
+    metrics.recordModeration("unban", "admin");
+    audit.record({ action: "unban", actor: ADMIN_ACTOR, target: ban });
+    return admin.ok(ban);
+  },
+
+  "GET /admin/reports": (_params, _body, { status, roomId }) => {
+    if (status && !["open", "hidden", "resolved"].includes(status)) {
+      return admin.fail(400, "status must be one of open, hidden, resolved");
+    }
+    return admin.ok(reports.listReports({ status, roomId }));
+  },
 
-// Initialize default room
-getOrCreateRoom(DEFAULT_ROOM_ID, { title: DEFAULT_ROOM_TITLE, secret: false });
+  "GET /admin/reports/:reportId": ({ reportId }) => {
+    const report = reports.getReport(reportId);
+    return report ? admin.ok(report) : admin.fail(404, "Report not found");
+  },
+
+  // Dismiss (an auto-hidden message comes back), hide the message, or ban its author; either way the report closes
+  "POST /admin/reports/:reportId/resolve": ({ reportId }, { action, note, minutes }) => {
+    const report = reports.getReport(reportId);
+    if (!report) return admin.fail(404, "Report not found");
+    if (report.status === "resolved") return admin.fail(409, "Report is already resolved");
+    if (!reports.ACTIONS.includes(action)) return admin.fail(400, `action must be one of ${reports.ACTIONS.join(", ")}`);
+    const author = report.author;
+    if (action === "ban" && !(author && (author.ip || author.clientId))) {
+      return admin.fail(409, "The author wasn't connected when reported, so there is nobody to ban");
+    }
+
+    const wasHidden = report.status === "hidden";
+    if (action === "dismiss" && wasHidden) setMessageHidden(io, report.roomId, report.messageId, false);
+    if (action !== "dismiss" && !wasHidden) setMessageHidden(io, report.roomId, report.messageId, true);
+    if (action === "ban") {
+      const ban = banUser(
+        { ip: author.ip, clientId: author.clientId, label: author.handle || author.color },
+        { reason: note || "Reported message", moderator: "admin", durationMs: minutes ? minutes * 60 * 1000 : null }
+      );
+      disconnectBanned(ban);
+    }
+
+    const resolved = reports.resolveReport(reportId, { action, note: note || null, by: "admin" });
+    syncNodes("report-filed", resolved);
+    metrics.recordModeration(`report-${action}`, "admin");
+    logger.info("Report resolved", { reportId, action, roomId: report.roomId });
+    audit.record({
+      action: `report-${action}`,
+      actor: ADMIN_ACTOR,
+      target: author && { ip: author.ip, clientId: author.clientId, label: author.handle || author.color },
+      roomId: report.roomId,
+      reason: note || null,
+      details: { reportId, ...(action === "ban" && minutes ? { minutes } : {}) },
+    });
+    return admin.ok(resolved);
+  },
+
+  // This node's audit log (lib/audit.js), newest first; from/to take epoch ms or ISO dates
+  "GET /admin/audit": async (_params, _body, { from, to, target, action, roomId, limit }) => {
+    const range = { from: from ? parseTime(from) : 0, to: to ? parseTime(to) : Infinity };
+    if (Number.isNaN(range.from) || Number.isNaN(range.to)) return admin.fail(400, "from and to must be epoch milliseconds or ISO dates");
+    const max = limit ? parseInt(limit, 10) : undefined;
+    if (max !== undefined && !(max > 0)) return admin.fail(400, "limit must be a positive integer");
+    return admin.ok(await audit.query({ ...range, target, action, roomId, limit: max }));
+  },
+
+  "POST /admin/notice": (_params, { text, roomId }) => {
+    if (roomId && !rooms.has(roomId)) return admin.fail(404, "Room not found");
+    const notice = { text: text.trim(), ts: Date.now() };
+    (roomId ? io.to(roomId) : io).emit("system-notice", notice);
+    logger.info("System notice sent", { roomId: roomId || null });
+    return admin.ok(notice);
+  },
+
+  "POST /admin/drain": (_params, body) => {
+    const delayMs = body?.delaySeconds !== undefined ? body.delaySeconds * 1000 : DRAIN_DELAY_MS;
+    if (!startDrain(delayMs)) return admin.fail(409, "Already draining");
+    return admin.ok({ draining: true, exitsAt: Date.now() + delayMs }, 202);
+  },
+};
+
+const handleAdmin = admin.createAdminHandler({ token: ADMIN_TOKEN, routes: adminRoutes, logger });
+
+
+// Link previews for the web app's /r/<roomId> pages: a public room's title and hours, nothing else.
+// Secret rooms answer exactly as missing ones do, so guessing ids can't find them
+const ROOM_PREVIEW_PATH = /^\/rooms\/([a-z0-9-]{1,32})$/;
+
+/** @returns {import("./lib/protocol").RoomPreview | null} */
+function getRoomPreview(roomId) {
+  const room = rooms.get(roomId);
+  if (!room || room.secret) return null;
+  return { id: room.id, title: room.title, ...(room.schedule ? { opening: schedules.status(room.schedule) } : {}) };
+}
 
 const httpServer = createServer((req, res) => {
   // Health check endpoint
   if (req.url === "/health" && req.method === "GET") {
     const health = {
-      status: "ok",
+      status: isDraining ? "draining" : "ok",
       uptime: Math.floor((Date.now() - serverStartTime) / 1000),
-      connections: new Set(socketIdToIP.values()).size,
+      connections: new Set([...io.sockets.sockets.values()].map((s) => s.data.ip).filter(Boolean)).size,
       redis: redis.isAvailable() ? "connected" : "unavailable",
       timestamp: new Date().toISOString(),
     };
-    res.writeHead(200, { "Content-Type": "application/json" });
+    // 503 while draining so load balancers stop sending new clients here
+    res.writeHead(isDraining ? 503 : 200, { "Content-Type": "application/json" });
     res.end(JSON.stringify(health));
     return;
   }
+  if (req.url === "/metrics" && req.method === "GET") {
+    metrics.scrape()
+      .then(({ contentType, body }) => {
+        res.writeHead(200, { "Content-Type": contentType });
+        res.end(body);
+      })
+      .catch((err) => {
+        logger.error("Metrics scrape failed", { error: err.message });
+        res.writeHead(500, { "Content-Type": "text/plain" });
+        res.end("metrics unavailable");
+      });
+    return;
+  }
+  const previewMatch = req.method === "GET" && ROOM_PREVIEW_PATH.exec((req.url || "").split("?")[0]);
+  if (previewMatch) {
+    const preview = getRoomPreview(previewMatch[1]);
+    res.writeHead(preview ? 200 : 404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(preview || { reason: "Not found" }));
+    return;
+  }
+  if (handleAdmin(req, res)) return;
   res.writeHead(200, { "Content-Type": "text/plain" });
   res.end("Witch@ Socket server");
 });
 
+/** @type {WitchServer} */
 const io = new Server(httpServer, {
   path: "/api/socketio",
   addTrailingSlash: false,
   cors: corsOpt,
 });
 
-startMoodDecayTimer(io);
-startSilenceTimer(io);
+startMoodDecayTimer(io);
+startSilenceTimer(io);
+startScheduleTimer(io);
+startRoomSweepTimer(io);
+startDirectoryTimer(io);
+
+metrics.registerGauges({
+  connections: () => io.sockets.sockets.size,
+  rooms: () => rooms.size,
+  dmSessions: () => activeDMs.size,
+  moods: () => {
+    const counts = { [MOOD_CALM]: 0, [MOOD_NEUTRAL]: 0, [MOOD_INTENSE]: 0 };
+    for (const room of rooms.values()) counts[computeCurrentMood(room.sentiment)]++;
+    return counts;
+  },
+});
+
+// Replica updates from other nodes (only fire when the Redis adapter is attached)
+io.on("room-created", (meta) => {
+  if (rooms.has(meta.id)) return;
+  rooms.set(meta.id, {
+    ...meta,
+    settings: streamSettings.resolve(meta.settings),
+    messages: [],
+    sentiment: [],
+    lastActivitySync: 0,
+    lastOccupied: Date.now(),
+    silenceState: false,
+    presenceGhosts: [],
+  });
+});
+
+io.on("room-deleted", async (roomId) => {
+  // Forced deletes can leave people behind on this node; move them out first
+  await evacuateRoom(io, roomId);
+  removeRoom(roomId);
+});
+
+io.on("room-message", (roomId, msg, score) => {
+  const room = rooms.get(roomId);
+  if (room) applyMessage(room, msg, score);
+});
+
+io.on("room-seeded", (roomId, messages) => {
+  const room = rooms.get(roomId);
+  if (room) room.messages = messages;
+});
+
+io.on("room-identity", (roomId, color, updates) => {
+  const room = rooms.get(roomId);
+  if (room) applyIdentity(room, color, updates);
+});
+
+io.on("room-ghost", (roomId, ghost) => {
+  const room = rooms.get(roomId);
+  if (room) pushPresenceGhost(room, ghost);
+});
+
+io.on("room-activity", (roomId, ts) => {
+  const room = rooms.get(roomId);
+  if (room && ts > room.lastActivity) {
+    room.lastActivity = ts;
+    room.silenceState = false;
+    markDirectoryChanged();
+  }
+});
+
+io.on("directory-changed", () => {
+  markDirectoryChanged();
+});
+
+io.on("ban-added", (ban) => {
+  bans.applyRemoteBan(ban);
+});
+
+io.on("ban-removed", (banId) => {
+  bans.applyRemoteUnban(banId);
+});
+
+io.on("mute-added", (key, until) => {
+  mutes.set(key, until);
+});
+
+io.on("room-cleared", (roomId) => {
+  const room = rooms.get(roomId);
+  if (room) room.messages = [];
+});
+
+io.on("report-filed", (report) => {
+  reports.applyRemoteReport(report);
+});
+
+io.on("message-hidden", (roomId, messageId, hidden) => {
+  const room = rooms.get(roomId);
+  const msg = room && room.messages.find((m) => m.id === messageId);
+  if (msg) msg.hidden = hidden;
+});
+
+io.on("room-updated", (meta) => {
+  const room = rooms.get(meta.id);
+  if (room) {
+    Object.assign(room, {
+      title: meta.title,
+      description: meta.description || null,
+      secret: meta.secret,
+      passphrase: meta.passphrase || null,
+      accessEpoch: meta.accessEpoch || 0,
+      keeper: meta.keeper || null,
+      locked: meta.locked,
+      linkMode: meta.linkMode || null,
+      pinned: !!meta.pinned,
+      settings: streamSettings.resolve(meta.settings),
+    });
+    // New opening hours are checked afresh: closed now means everyone here is moved out
+    if (JSON.stringify(meta.schedule || null) !== JSON.stringify(room.schedule)) {
+      room.schedule = meta.schedule || null;
+      scheduleStates.delete(meta.id);
+    }
+  }
+});
 
 io.on("connection", (socket) => {
   const clientIP = getClientIP(socket);
 
   // Check if banned
-  if (bannedIPs.has(clientIP)) {
-    logger.info("Banned IP attempted connection", { ip: clientIP });
-    socket.emit("banned", { reason: "You have been banned." });
+  const ipBan = bans.findBan({ ip: clientIP });
+  if (ipBan) {
+    logger.info("Banned IP attempted connection", { ip: clientIP, banId: ipBan.id });
+    socket.emit("banned", banNotice(ipBan));
+    socket.disconnect(true);
+    return;
+  }
+
+  // A draining node takes no one new; the client's reconnect lands on another node
+  if (isDraining) {
+    socket.emit("server-shutdown", { message: "Server is restarting" });
     socket.disconnect(true);
     return;
   }
 
   logger.info("Client connected", { socketId: socket.id });
+  socket.data.listening = [];
+  metrics.instrumentSocket(socket);
+
+  // Validate every inbound payload before it reaches a handler; malformed events are dropped
+  socket.use(([event, payload], next) => {
+    const result = validation.validatePayload(event, payload);
+    if (result.valid) return next();
+
+    logger.info("Invalid payload rejected", { socketId: socket.id, event, reason: result.reason });
+    socket.emit("invalid-payload", { event, reason: result.reason });
+    const rateCheck = checkRateLimit(socket.id, "invalid");
+    if (!rateCheck.allowed) {
+      logger.warn("Repeated invalid payloads, disconnecting", { socketId: socket.id, reason: rateCheck.reason });
+      socket.disconnect(true);
+    }
+  });
 
   socket.on("join", async (payload) => {
     // Rate limit join events
@@ -494,10 +1825,24 @@ io.on("connection", (socket) => {
       return;
     }
 
-    const { color, handle, tag, sigil, roomId: requestedRoomId } = payload || {};
+    const { color, handle, tag, sigil, clientId, roomId: requestedRoomId, passphrase, invite, pass } = payload || {};
     const clientIP = getClientIP(socket);
-    socketIdToIP.set(socket.id, clientIP);
-    socketFocused.set(socket.id, true); // Assume focused on join
+    socket.data.ip = clientIP;
+    socket.data.focused = true; // Assume focused on join
+    socket.data.clientId = validateClientId(clientId);
+    socket.data.firstSeen = socket.data.clientId ? await redis.touchClient(socket.data.clientId) : null;
+
+    // The IP was checked on connection; a ban can also follow the browser to a new IP
+    const clientBan = socket.data.clientId && bans.findBan({ clientId: socket.data.clientId });
+    if (clientBan) {
+      logger.info("Banned client attempted join", { socketId: socket.id, banId: clientBan.id });
+      socket.emit("banned", banNotice(clientBan));
+      socket.disconnect(true);
+      return;
+    }
+
+    // Reconnect within the grace window: pick up where the dropped socket left off
+    const session = socket.data.clientId ? await resumeSession(socket.data.clientId) : null;
 
     // Validate inputs
     const validatedColor = validateColor(color);
@@ -505,13 +1850,23 @@ io.on("connection", (socket) => {
     const validatedTag = validateTag(tag);
     const validatedSigil = validateSigil(sigil);
 
-    socket.userColor = validatedColor || `#${Math.floor(Math.random() * 0xffffff).toString(16).padStart(6, "0")}`;
-    socket.userHandle = validatedHandle;
-    socket.userTag = validatedTag;
-    socket.userSigil = validatedSigil || SIGILS[Math.floor(Math.random() * SIGILS.length)];
+    if (session) {
+      socket.data.color = session.color;
+      socket.data.handle = session.handle;
+      socket.data.tag = session.tag;
+      socket.data.sigil = session.sigil;
+      socket.data.steppingAway = session.steppingAway;
+      if (session.steppingAway) startAwayTimer(socket);
+    } else {
+      socket.data.color = validatedColor || `#${Math.floor(Math.random() * 0xffffff).toString(16).padStart(6, "0")}`;
+      socket.data.handle = validatedHandle;
+      socket.data.tag = validatedTag;
+      socket.data.sigil = validatedSigil || SIGILS[Math.floor(Math.random() * SIGILS.length)];
+    }
 
-    // Join the specified room (or default)
-    let roomId = getRoomId(requestedRoomId);
+    // Join the resumed room if it still exists, else the specified room (or default)
+    let resumed = !!session && rooms.has(session.room);
+    let roomId = resumed ? session.room : getRoomId(requestedRoomId);
 
     // Fix: Check if room exists; if not and at MAX_ROOMS, fall back to default
     if (!rooms.has(roomId) && roomId !== DEFAULT_ROOM_ID) {
@@ -521,36 +1876,46 @@ io.on("connection", (socket) => {
       }
     }
 
+    // A secret room they can't get into: main instead, and room-switch-failed says why. Resumed sessions
+    // are checked too - the room may have gone secret, changed its passphrase or closed while they were gone
+    if (rooms.has(roomId) && !(await admitToRoom(socket, rooms.get(roomId), { passphrase, invite, pass }))) {
+      roomId = DEFAULT_ROOM_ID;
+      resumed = false;
+    }
+
+    // Joining a room that doesn't exist yet creates it, but without a keeper: keeping a room comes
+    // with create-room's rate limit and title checks, and a link shouldn't hand out delete rights
     const room = getOrCreateRoom(roomId);
 
     // Leave any previous room
     const prevRoomId = socketToRoom.get(socket.id);
     if (prevRoomId && prevRoomId !== roomId) {
       socket.leave(prevRoomId);
-      addPresenceGhost(socket.userColor, socket.userHandle, prevRoomId);
+      addPresenceGhost(socket.data.color, socket.data.handle, prevRoomId);
       broadcastPresence(io, prevRoomId);
       broadcastAttention(io, prevRoomId);
       io.to(prevRoomId).emit("presence-ghosts", getPresenceGhosts(prevRoomId));
     }
 
     // Join new room
+    stopListening(io, socket, roomId);
     socket.join(roomId);
     socketToRoom.set(socket.id, roomId);
-    socket.currentRoom = roomId;
+    socket.data.room = roomId;
 
     broadcastPresence(io, roomId);
     broadcastAttention(io, roomId);
-    logger.debug("User joined room", { socketId: socket.id, ip: clientIP, roomId });
+    logger.debug("User joined room", { socketId: socket.id, ip: clientIP, roomId, resumed });
 
     socket.emit("identity", {
-      color: socket.userColor,
-      handle: socket.userHandle,
-      tag: socket.userTag,
-      sigil: socket.userSigil,
+      color: socket.data.color,
+      handle: socket.data.handle,
+      tag: socket.data.tag,
+      sigil: socket.data.sigil,
     });
 
     // Send room state using helper (Issue #6)
-    sendRoomState(socket, io, room, roomId);
+    await sendRoomState(socket, io, room, roomId, { resumed });
   });
 
   socket.on("message", async (payload) => {
@@ -565,101 +1930,126 @@ io.on("connection", (socket) => {
       return;
     }
 
-    const text = typeof payload === "string" ? payload : payload?.text;
-    const whisper = typeof payload === "object" && payload?.whisper === true;
-    if (!text || typeof text !== "string") return;
+    const text = typeof payload === "string" ? payload : payload.text;
+    const whisper = typeof payload === "object" && payload.whisper === true;
     const trimmed = text.trim().slice(0, 500);
     if (!trimmed) return;
 
     const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
     const room = getOrCreateRoom(roomId);
 
-    // Content moderation
-    const modResult = moderation.moderate(trimmed);
+    // Locked rooms and muted users: moderators can still speak
+    if (room.locked && !socket.data.moderator) {
+      metrics.recordModeration("reject", "locked");
+      socket.emit("message-rejected", { reason: "The room is locked." });
+      return;
+    }
+    const mutedUntil = getMutedUntil(socket.data);
+    if (mutedUntil) {
+      metrics.recordModeration("reject", "muted");
+      socket.emit("message-rejected", { reason: `You are muted for ${Math.ceil((mutedUntil - Date.now()) / 60000)}m.` });
+      return;
+    }
+
+    // Spam scoring (lib/spam.js); moderators are exempt
+    const spamResult = socket.data.moderator
+      ? null
+      : spam.check({ key: muteKey(socket.data), roomId, text: trimmed, fresh: spam.isFresh(socket.data.firstSeen) });
+    if (spamResult && spamResult.escalated) reportSpam(io, socket, roomId, spamResult);
+    if (spamResult && spamResult.action === "drop") {
+      socket.emit("message-rejected", { reason: "That looks like spam." });
+      return;
+    }
+    if (spamResult && spamResult.action === "throttle") {
+      socket.emit("message-rejected", {
+        reason: `Slow down - you can speak again in ${Math.ceil((spamResult.until - Date.now()) / 1000)}s.`,
+      });
+      return;
+    }
+    // Shadow-muted senders see their messages go out as usual; nobody else does
+    const shadowMuted = spamResult !== null && spamResult.action === "shadow-mute";
+
+    // Content moderation, under this room's policy (lib/policy.js) and the link mode its moderators set
+    const roomPolicy = policy.forRoom(roomId);
+    const modResult = moderation.moderate(trimmed, roomPolicy, room.linkMode || roomPolicy.links.mode);
 
     // Block links silently
-    if (!modResult.allowed && modResult.reason === "no-links") {
-      socket.emit("message-rejected", { reason: "Links are not allowed." });
-      logger.info("Link blocked", { socketId: socket.id });
+    if (!modResult.allowed && (modResult.reason === "no-links" || modResult.reason === "link-not-allowed")) {
+      metrics.recordModeration("reject", "link");
+      socket.emit("message-rejected", {
+        reason: modResult.reason === "no-links" ? "Links are not allowed." : "Links to that site aren't allowed here.",
+      });
+      logger.info("Link blocked", { socketId: socket.id, reason: modResult.reason });
+      audit.record({ action: "reject-link", target: auditParty(socket.data), roomId, reason: modResult.reason });
+      return;
+    }
+
+    // Block-severity terms: rejected, no strike
+    if (!modResult.allowed) {
+      metrics.recordModeration("reject", modResult.category);
+      socket.emit("message-rejected", { reason: "That message isn't allowed here." });
+      logger.info("Message blocked", { socketId: socket.id, category: modResult.category });
+      audit.record({ action: "reject", target: auditParty(socket.data), roomId, reason: modResult.category });
       return;
     }
 
-    // Handle bigotry: mask, force-reveal, broadcast, ban
-    if (modResult.isBigotry) {
-      const userIP = getClientIP(socket);
-      logger.warn("Bigotry detected", {
+    // Strike-severity terms (bigotry): a strike, and the ladder decides what it costs
+    if (modResult.strike) {
+      logger.warn("Strike-worthy message", {
         socketId: socket.id,
-        ip: userIP,
-        original: trimmed,
+        ip: socket.data.ip,
+        category: modResult.category,
         masked: modResult.maskedText,
       });
-
-      // Force reveal identity - they lose anonymity
-      const revealedHandle = socket.userHandle || `anon-${socket.userColor.slice(1, 4)}`;
-
-      // Broadcast the masked message WITH forced attribution (to room only)
-      const msg = {
-        id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
-        text: modResult.maskedText,
-        color: socket.userColor || "#7b5278",
-        handle: revealedHandle,
-        tag: socket.userTag || null,
-        sigil: socket.userSigil || null,
-        whisper: false,
-        ts: Date.now(),
-        flagged: true, // Mark as moderated
-      };
-
-      io.to(roomId).emit("message", msg);
-      io.to(roomId).emit("user-banned", {
-        color: socket.userColor,
-        handle: revealedHandle,
-        reason: "bigotry",
+      const strike = await strikes.recordStrike({ ip: socket.data.ip, clientId: socket.data.clientId });
+      applyStrike(io, socket, roomId, strike, {
+        reason: modResult.category === "bigotry" ? "Bigotry is not tolerated." : `No ${modResult.category} here.`,
+        maskedText: modResult.maskedText,
+        cause: modResult.category,
       });
-
-      // Ban and disconnect
-      bannedIPs.add(userIP);
-      socket.emit("banned", { reason: "Bigotry is not tolerated." });
-      socket.disconnect(true);
       return;
     }
 
-    room.lastMessageTs = Date.now();
-    recordActivity(roomId);
-    io.to(roomId).emit("silence", { settled: false }); // Immediately notify silence is broken
+    if (modResult.maskedText) {
+      audit.record({ action: "mask", target: auditParty(socket.data), roomId, reason: modResult.category });
+    }
+
+    if (!shadowMuted) io.to(roomId).emit("silence", { settled: false }); // Immediately notify silence is broken
     const result = sentiment.analyze(trimmed);
     const energy = energyPenalty(trimmed);
     const effectiveScore = result.score - energy;
 
-    // Store sentiment in room
-    room.sentiment.push(effectiveScore);
-    if (room.sentiment.length > MAX_SENTIMENT_HISTORY) {
-      room.sentiment.shift();
-    }
-
     // Extract hashtags for topic subscriptions
     const hashtags = extractHashtags(trimmed);
 
     const msg = {
       id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
-      text: trimmed,
-      color: socket.userColor || "#7b5278",
-      handle: socket.userHandle || null,
-      tag: socket.userTag || null,
-      sigil: socket.userSigil || null,
+      text: modResult.maskedText || trimmed, // Mask-severity terms go out masked
+      color: socket.data.color || "#7b5278",
+      handle: socket.data.handle || null,
+      tag: socket.data.tag || null,
+      sigil: socket.data.sigil || null,
       whisper: whisper,
       ts: Date.now(),
       hashtags: hashtags.length > 0 ? hashtags : undefined,
+      links: modResult.links,
     };
-
-    // Store message in room
-    room.messages.push(msg);
-    if (room.messages.length > MAX_MESSAGES) {
-      room.messages.shift();
+    if (shadowMuted) {
+      socket.emit("message", msg);
+      return;
     }
 
+    // Store message and sentiment in room, write through, and update other nodes' replicas
+    applyMessage(room, msg, effectiveScore);
+    redis.addMessage(roomId, msg, keptMessages(room));
+    redis.addSentiment(roomId, effectiveScore, MAX_SENTIMENT_HISTORY);
+    persistRoomMeta(room);
+    syncNodes("room-message", roomId, msg, effectiveScore);
+    metrics.recordMessage(room);
+
     io.to(roomId).emit("message", msg);
     io.to(roomId).emit("mood", computeCurrentMood(room.sentiment));
+    io.to(listenChannel(roomId)).emit("room-pulse", { roomId, mood: computeCurrentMood(room.sentiment), message: true });
   });
 
   socket.on("reveal", async (payload) => {
@@ -668,37 +2058,38 @@ io.on("connection", (socket) => {
     const sigil = typeof payload === "object" && payload?.sigil != null ? payload.sigil : undefined;
 
     // Validate inputs
-    socket.userHandle = validateHandle(handle);
-    socket.userTag = validateTag(tag);
+    socket.data.handle = validateHandle(handle);
+    socket.data.tag = validateTag(tag);
     const validatedSigil = validateSigil(sigil);
-    if (validatedSigil) socket.userSigil = validatedSigil;
+    if (validatedSigil) socket.data.sigil = validatedSigil;
 
-    const color = socket.userColor || "#7b5278";
+    const color = socket.data.color || "#7b5278";
     const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
     const room = rooms.get(roomId);
 
     // Update messages in room with new identity info
     if (room) {
-      for (const msg of room.messages) {
-        if (msg.color === color) {
-          msg.handle = socket.userHandle;
-          msg.tag = socket.userTag;
-          msg.sigil = socket.userSigil || null;
-        }
-      }
+      const updates = {
+        handle: socket.data.handle,
+        tag: socket.data.tag,
+        sigil: socket.data.sigil || null,
+      };
+      applyIdentity(room, color, updates);
+      redis.updateMessagesByColor(roomId, color, updates);
+      syncNodes("room-identity", roomId, color, updates);
     }
 
     socket.emit("identity", {
       color,
-      handle: socket.userHandle,
-      tag: socket.userTag,
-      sigil: socket.userSigil,
+      handle: socket.data.handle,
+      tag: socket.data.tag,
+      sigil: socket.data.sigil,
     });
     io.to(roomId).emit("identity-revealed", {
       color,
-      handle: socket.userHandle,
-      tag: socket.userTag,
-      sigil: socket.userSigil || null,
+      handle: socket.data.handle,
+      tag: socket.data.tag,
+      sigil: socket.data.sigil || null,
     });
   });
 
@@ -716,18 +2107,18 @@ io.on("connection", (socket) => {
     const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
     recordActivity(roomId);
     io.to(roomId).emit("silence", { settled: false }); // Typing breaks silence
-    socket.to(roomId).emit("typing", { color: socket.userColor, handle: socket.userHandle });
+    socket.to(roomId).emit("typing", { color: socket.data.color, handle: socket.data.handle });
     // Auto-emit typing-stop after 5 seconds of no activity
     if (typingTimers.has(socket.id)) clearTimeout(typingTimers.get(socket.id));
     typingTimers.set(socket.id, setTimeout(() => {
-      socket.to(roomId).emit("typing-stop", { color: socket.userColor });
+      socket.to(roomId).emit("typing-stop", { color: socket.data.color });
       typingTimers.delete(socket.id);
     }, 5000));
   });
 
   socket.on("typing-stop", () => {
     const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
-    socket.to(roomId).emit("typing-stop", { color: socket.userColor });
+    socket.to(roomId).emit("typing-stop", { color: socket.data.color });
     if (typingTimers.has(socket.id)) {
       clearTimeout(typingTimers.get(socket.id));
       typingTimers.delete(socket.id);
@@ -738,48 +2129,41 @@ io.on("connection", (socket) => {
 
   // Attention tracking - focus/blur
   socket.on("focus", () => {
-    socketFocused.set(socket.id, true);
+    socket.data.focused = true;
     const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
     broadcastAttention(io, roomId);
   });
 
   socket.on("blur", () => {
-    socketFocused.set(socket.id, false);
+    socket.data.focused = false;
     const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
     broadcastAttention(io, roomId);
   });
 
   // Affirmation - silent "I hear you" pulse
   socket.on("affirm", (messageId) => {
-    if (!messageId || typeof messageId !== "string") return;
     const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
     io.to(roomId).emit("affirmation", {
       messageId,
-      color: socket.userColor || "#7b5278",
+      color: socket.data.color || "#7b5278",
     });
   });
 
   // Deliberate departure - "stepping away"
   socket.on("away", () => {
-    socketAway.set(socket.id, true);
+    socket.data.steppingAway = true;
     const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
     broadcastAttention(io, roomId);
     io.to(roomId).emit("user-away", {
-      color: socket.userColor,
-      handle: socket.userHandle,
+      color: socket.data.color,
+      handle: socket.data.handle,
     });
-    // Auto-disconnect after timeout
-    if (awayTimers.has(socket.id)) clearTimeout(awayTimers.get(socket.id));
-    awayTimers.set(socket.id, setTimeout(() => {
-      if (socketAway.get(socket.id)) {
-        socket.disconnect(true);
-      }
-    }, AWAY_TIMEOUT_MS));
+    startAwayTimer(socket);
   });
 
   socket.on("back", () => {
-    const wasAway = socketAway.get(socket.id);
-    socketAway.delete(socket.id);
+    const wasAway = socket.data.steppingAway;
+    socket.data.steppingAway = false;
     if (awayTimers.has(socket.id)) {
       clearTimeout(awayTimers.get(socket.id));
       awayTimers.delete(socket.id);
@@ -788,44 +2172,41 @@ io.on("connection", (socket) => {
       const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
       broadcastAttention(io, roomId);
       io.to(roomId).emit("user-back", {
-        color: socket.userColor,
-        handle: socket.userHandle,
+        color: socket.data.color,
+        handle: socket.data.handle,
       });
     }
   });
 
   socket.on("copy", (payload) => {
-    const messageId = typeof payload === "object" ? payload?.messageId : null;
+    const messageId = payload.messageId;
     const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
     io.to(roomId).emit("copy", {
-      color: socket.userColor || "#7b5278",
-      handle: socket.userHandle || null,
+      color: socket.data.color || "#7b5278",
+      handle: socket.data.handle || null,
     });
     // Track resonance if we know which message was copied
     if (messageId) {
-      const resonance = addResonance(messageId);
+      const resonance = addResonance(messageId, roomId);
       io.to(roomId).emit("resonance", { messageId, count: resonance });
     }
   });
 
   // Summoning: gently ping an idle user by handle (within same room)
-  socket.on("summon", (target) => {
-    if (!target || typeof target !== "string") return;
+  socket.on("summon", async (target) => {
     const targetLower = target.toLowerCase().trim();
     const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
-    // Find socket with that handle in the same room
-    for (const [, s] of io.sockets.sockets) {
-      if (s.id !== socket.id && s.userHandle && s.userHandle.toLowerCase() === targetLower) {
-        const targetRoomId = socketToRoom.get(s.id);
-        if (targetRoomId === roomId) {
-          s.emit("summoned", {
-            byColor: socket.userColor,
-            byHandle: socket.userHandle,
-          });
-          // Notify the summoner it worked
-          socket.emit("summon-sent", { target: s.userHandle });
-          return;
-        }
+    // Find socket with that handle in the same room (on any node)
+    const sockets = await io.in(roomId).fetchSockets().catch(() => []);
+    for (const s of sockets) {
+      if (s.id !== socket.id && s.data.handle && s.data.handle.toLowerCase() === targetLower) {
+        s.emit("summoned", {
+          byColor: socket.data.color,
+          byHandle: socket.data.handle,
+        });
+        // Notify the summoner it worked
+        socket.emit("summon-sent", { target: s.data.handle });
+        return;
       }
     }
     // Handle not found
@@ -833,15 +2214,15 @@ io.on("connection", (socket) => {
   });
 
   // Room management
-  socket.on("list-rooms", () => {
-    const roomList = getRoomList().map((r) => ({
-      ...r,
-      presence: getRoomPresence(io, r.id),
-    }));
-    socket.emit("room-list", roomList);
+  socket.on("list-rooms", async () => {
+    try {
+      socket.emit("room-list", await getRoomList(io));
+    } catch (err) {
+      logger.error("Room list failed", { error: err.message });
+    }
   });
 
-  socket.on("create-room", (payload) => {
+  socket.on("create-room", async (payload) => {
     // Issue #4: Rate limit room creation
     const rateCheck = checkRateLimit(socket.id, "createRoom");
     if (!rateCheck.allowed) {
@@ -849,11 +2230,19 @@ io.on("connection", (socket) => {
       return;
     }
 
-    const { title, secret } = payload || {};
-    if (!title || typeof title !== "string") {
-      socket.emit("room-create-failed", { reason: "Title required" });
-      return;
+    const { title, passphrase } = payload;
+    const secret = !!payload.secret || !!passphrase; // A passphrase only means something on a secret room
+    let schedule = null;
+    if (payload.schedule) {
+      try {
+        schedule = schedules.normalize(payload.schedule);
+      } catch (err) {
+        socket.emit("room-create-failed", { reason: err.message });
+        return;
+      }
     }
+    // Hashed before the checks below, so nothing can slip in between them and the room being made
+    const passphraseHash = passphrase ? await roomAccess.hashPassphrase(passphrase) : null;
 
     // Issue #4: Enforce MAX_ROOMS cap to prevent DoS
     if (rooms.size >= MAX_ROOMS) {
@@ -869,26 +2258,149 @@ io.on("connection", (socket) => {
       return;
     }
 
-    getOrCreateRoom(roomId, { title: sanitizedTitle, secret: !!secret });
-    socket.emit("room-created", { roomId, title: sanitizedTitle, secret: !!secret });
+    const room = getOrCreateRoom(roomId, {
+      title: sanitizedTitle,
+      secret,
+      passphrase: passphraseHash,
+      keeper: socket.data.clientId,
+      schedule,
+    });
+    if (secret) {
+      // The creator keeps the room, so needs no pass; just an invite to hand out
+      socket.emit("room-created", { roomId, title: sanitizedTitle, secret, invite: createRoomInvite(room) });
+    } else {
+      socket.emit("room-created", { roomId, title: sanitizedTitle, secret });
+    }
 
     // Broadcast updated room list to everyone (excluding secret rooms)
     if (!secret) {
-      const roomList = getRoomList().map((r) => ({
-        ...r,
-        presence: getRoomPresence(io, r.id),
-      }));
-      io.emit("room-list", roomList);
+      broadcastRoomList(io);
+    }
+  });
+
+  // Anyone inside a secret room can invite others in
+  socket.on("create-invite", ({ minutes, maxUses }) => {
+    const rateCheck = checkRateLimit(socket.id, "invite");
+    if (!rateCheck.allowed) {
+      socket.emit("invite-failed", { reason: "Too many invites. Please wait." });
+      return;
+    }
+    const room = rooms.get(socketToRoom.get(socket.id) || DEFAULT_ROOM_ID);
+    if (!room || !room.secret) {
+      socket.emit("invite-failed", { reason: "Only secret rooms need invites" });
+      return;
+    }
+    const invite = createRoomInvite(room, {
+      ttlMs: minutes ? minutes * 60 * 1000 : roomAccess.DEFAULT_INVITE_TTL_MS,
+      maxUses: maxUses || roomAccess.DEFAULT_INVITE_USES,
+    });
+    socket.emit("invite-created", invite);
+    logger.info("Invite created", { socketId: socket.id, roomId: room.id, maxUses: invite.maxUses, expiresAt: invite.expiresAt });
+  });
+
+  // Keeper edits to the room you're in: title, description, secret flag, opening hours, pin, stream settings
+  socket.on("update-room", ({ title, description, secret, schedule, pinned, settings }) => {
+    const rateCheck = checkRateLimit(socket.id, "roomEdit");
+    if (!rateCheck.allowed) {
+      socket.emit("room-update-failed", { reason: "Too many room changes. Please wait." });
+      return;
+    }
+    const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
+    const room = rooms.get(roomId);
+    if (!room) return;
+    if (!canKeep(socket, room)) {
+      socket.emit("room-update-failed", { reason: "Only the room's keeper can change it" });
+      return;
+    }
+    if (roomId === DEFAULT_ROOM_ID && (title !== undefined || secret !== undefined || schedule || pinned !== undefined)) {
+      socket.emit("room-update-failed", { reason: "The main room's title, visibility and hours can't change" });
+      return;
+    }
+
+    const changes = {};
+    if (title !== undefined) {
+      const sanitizedTitle = title.trim().slice(0, 64);
+      if (!sanitizedTitle) {
+        socket.emit("room-update-failed", { reason: "Title must not be blank" });
+        return;
+      }
+      if (sanitizedTitle !== room.title) changes.title = sanitizedTitle;
+    }
+    if (description !== undefined) {
+      const sanitizedDescription = (description || "").trim().slice(0, MAX_DESCRIPTION_LENGTH) || null;
+      if (sanitizedDescription !== room.description) changes.description = sanitizedDescription;
+    }
+    if (secret !== undefined && secret !== room.secret) {
+      changes.secret = secret;
+      // Going public drops the passphrase and voids every invite and pass, so going secret again starts clean
+      if (!secret) Object.assign(changes, { passphrase: null, accessEpoch: room.accessEpoch + 1 });
+    }
+    if (schedule !== undefined) {
+      let normalized = null;
+      try {
+        normalized = schedule && schedules.normalize(schedule);
+      } catch (err) {
+        socket.emit("room-update-failed", { reason: err.message });
+        return;
+      }
+      if (JSON.stringify(normalized) !== JSON.stringify(room.schedule)) changes.schedule = normalized;
+    }
+    if (pinned !== undefined && pinned !== room.pinned) changes.pinned = pinned;
+    if (settings !== undefined) {
+      const tuned = streamSettings.resolve({ ...room.settings, ...settings });
+      if (streamSettings.changedKeys(room.settings, tuned).length > 0) changes.settings = tuned;
     }
+    if (Object.keys(changes).length === 0) return;
+
+    const listed = !room.secret;
+    updateRoomMeta(room, changes);
+    announceRoomInfo(io, room);
+    if (changes.secret) grantPasses(io, room);
+    if ("schedule" in changes) {
+      // Checked afresh now rather than on the next tick: new hours that close the room empty it
+      scheduleStates.delete(roomId);
+      checkSchedules(io).catch((err) => logger.error("Schedule check failed", { error: err.message }));
+    }
+    // Pinning and stream settings aren't in the list, so changing only those sends nothing
+    const listChanged = ["title", "description", "secret", "schedule"].some((key) => key in changes);
+    if (listChanged && (listed || !room.secret)) broadcastRoomList(io);
+    logger.info("Room updated", { roomId, changes: Object.keys(changes), by: socket.data.moderator ? "moderator" : "keeper" });
   });
 
-  socket.on("delete-room", (payload) => {
-    const { roomId: targetRoomId } = payload || {};
-    if (!targetRoomId || typeof targetRoomId !== "string") {
-      socket.emit("room-delete-failed", { reason: "Room ID required" });
+  // Pass keepership to someone in the room; they need a clientId for it to stick
+  socket.on("hand-off-room", async ({ target }) => {
+    const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
+    const room = rooms.get(roomId);
+    if (!room) return;
+    if (roomId === DEFAULT_ROOM_ID || !canKeep(socket, room)) {
+      socket.emit("room-update-failed", { reason: roomId === DEFAULT_ROOM_ID ? "The main room has no keeper" : "Only the room's keeper can hand it off" });
+      return;
+    }
+    const candidates = await findModTargets(io, roomId, target).catch(() => []);
+    const heir = candidates.find((s) => s.data.clientId);
+    if (!heir) {
+      socket.emit("room-update-failed", { reason: `No one called ${target} is here` });
+      return;
+    }
+    if (heir.data.clientId === room.keeper) {
+      socket.emit("room-update-failed", { reason: "They already keep this room" });
       return;
     }
 
+    const previous = room.keeper;
+    updateRoomMeta(room, { keeper: heir.data.clientId });
+    for (const s of await io.in(roomId).fetchSockets().catch(() => [])) {
+      if (s.data.clientId && (s.data.clientId === previous || s.data.clientId === room.keeper)) {
+        s.emit("keeper-status", { roomId, keeper: s.data.clientId === room.keeper });
+      }
+    }
+    io.to(roomId).emit("system-notice", { text: `${userLabel(heir.data)} now keeps ${room.title}`, ts: Date.now() });
+    logger.info("Room handed off", { roomId, by: socket.data.moderator ? "moderator" : "keeper" });
+  });
+
+  socket.on("delete-room", async (payload) => {
+    const { roomId: targetRoomId } = payload;
+
     const roomId = getRoomId(targetRoomId);
 
     // Can't delete the default room
@@ -898,52 +2410,40 @@ io.on("connection", (socket) => {
     }
 
     // Check if room exists
-    if (!rooms.has(roomId)) {
+    const room = rooms.get(roomId);
+    if (!room) {
       socket.emit("room-delete-failed", { reason: "Room not found" });
       return;
     }
-
-    // Check if room is empty
-    const presence = getRoomPresence(io, roomId);
-    if (presence > 0) {
-      socket.emit("room-delete-failed", { reason: "Room must be empty to delete" });
+    if (!canKeep(socket, room)) {
+      socket.emit("room-delete-failed", { reason: "Only the room's keeper can delete it" });
       return;
     }
 
-    // Delete the room
-    const room = rooms.get(roomId);
+    // Delete the room; anyone still inside lands in main (every node moves its own)
     const wasSecret = room.secret;
-
-    // Fix: Clean up orphaned DM timers for this room
-    for (const [dmKey, timer] of dmCleanupTimers) {
-      if (dmKey.startsWith(`${roomId}:`)) {
-        clearTimeout(timer);
-        dmCleanupTimers.delete(dmKey);
-        activeDMs.delete(dmKey);
-      }
-    }
-
-    rooms.delete(roomId);
+    syncNodes("room-deleted", roomId);
+    await evacuateRoom(io, roomId);
+    removeRoom(roomId);
+    redis.deleteRoom(roomId);
     logger.info("Room deleted", { roomId });
+    audit.record({
+      action: "delete-room",
+      actor: { type: socket.data.moderator ? "moderator" : "keeper", ...auditParty(socket.data) },
+      roomId,
+      reason: null,
+    });
 
     socket.emit("room-deleted", { roomId });
 
     // Broadcast updated room list (if it was public)
     if (!wasSecret) {
-      const roomList = getRoomList().map((r) => ({
-        ...r,
-        presence: getRoomPresence(io, r.id),
-      }));
-      io.emit("room-list", roomList);
+      broadcastRoomList(io);
     }
   });
 
-  socket.on("switch-room", (payload) => {
-    const { roomId: targetRoomId } = payload || {};
-    if (!targetRoomId || typeof targetRoomId !== "string") {
-      socket.emit("room-switch-failed", { reason: "Room ID required" });
-      return;
-    }
+  socket.on("switch-room", async (payload) => {
+    const { roomId: targetRoomId, passphrase, invite, pass } = payload;
 
     const roomId = getRoomId(targetRoomId);
     const currentRoomId = socketToRoom.get(socket.id);
@@ -955,71 +2455,155 @@ io.on("connection", (socket) => {
 
     // Issue #2: Only allow switching to existing rooms or default room (no implicit creation)
     if (!rooms.has(roomId) && roomId !== DEFAULT_ROOM_ID) {
-      socket.emit("room-switch-failed", { reason: "Room does not exist" });
+      socket.emit("room-switch-failed", { reason: "Room does not exist", roomId });
+      return;
+    }
+    if (!(await admitToRoom(socket, getOrCreateRoom(roomId), { passphrase, invite, pass }))) return;
+    if (socketToRoom.get(socket.id) !== currentRoomId) return; // Moved elsewhere while access was checked
+
+    noteDrift(socket, currentRoomId, roomId);
+    await moveToRoom(io, socket, roomId);
+  });
+
+  // Branch a tangent off the room you're in: a child room seeded with the last few messages as ghosts.
+  // Whoever wrote them gets an invite, you move in, and the parent hears who drifted over
+  socket.on("branch-room", async ({ title }) => {
+    const rateCheck = checkRateLimit(socket.id, "createRoom");
+    if (!rateCheck.allowed) {
+      socket.emit("branch-failed", { reason: "Too many room creations. Please wait." });
+      return;
+    }
+    const parent = rooms.get(socketToRoom.get(socket.id) || DEFAULT_ROOM_ID);
+    if (!parent || !socket.data.color) return;
+    // As with messages: a locked room's talk can't be carried off to somewhere unlocked
+    if (parent.locked && !socket.data.moderator) {
+      socket.emit("branch-failed", { reason: "The room is locked." });
+      return;
+    }
+    if (getMutedUntil(socket.data)) {
+      socket.emit("branch-failed", { reason: "You are muted" });
+      return;
+    }
+    if (rooms.size >= MAX_ROOMS) {
+      socket.emit("branch-failed", { reason: "Maximum room limit reached" });
+      return;
+    }
+    const sanitizedTitle = title.trim().slice(0, 64);
+    const roomId = getRoomId(sanitizedTitle.replace(/\s+/g, "-"));
+    if (rooms.has(roomId)) {
+      socket.emit("branch-failed", { reason: "Room already exists" });
       return;
     }
 
-    // Leave current room
-    if (currentRoomId) {
-      socket.leave(currentRoomId);
-      addPresenceGhost(socket.userColor, socket.userHandle, currentRoomId);
-      broadcastPresence(io, currentRoomId);
-      broadcastAttention(io, currentRoomId);
-      io.to(currentRoomId).emit("presence-ghosts", getPresenceGhosts(currentRoomId));
+    // A secret room's tangents stay secret; the brancher keeps the branch
+    const branch = getOrCreateRoom(roomId, {
+      title: sanitizedTitle,
+      secret: parent.secret,
+      keeper: socket.data.clientId,
+      parentId: parent.id,
+    });
+    const carried = recentMessages(parent, branch.settings.ghostMessages).map((msg) => ({ ...msg }));
+    if (carried.length > 0) {
+      branch.messages = carried;
+      for (const msg of carried) redis.addMessage(roomId, msg, keptMessages(branch));
+      syncNodes("room-seeded", roomId, carried);
+    }
+    logger.info("Room branched", { roomId, parentId: parent.id, carried: carried.length });
+
+    const participants = new Set(carried.map((msg) => msg.color));
+    participants.delete(socket.data.color);
+    // A single invite serves both: the brancher can hand it out, and the invited follow with it
+    const invite = branch.secret ? createRoomInvite(branch) : null;
+    socket.emit("room-created", { roomId, title: sanitizedTitle, secret: branch.secret, ...(invite ? { invite } : {}) });
+
+    startBranchDrift(io, roomId, parent.id);
+    noteDrift(socket, parent.id, roomId);
+    await moveToRoom(io, socket, roomId);
+
+    if (participants.size > 0) {
+      /** @type {import("./lib/protocol").BranchInvite} */
+      const branchInvite = {
+        roomId,
+        title: sanitizedTitle,
+        parentId: parent.id,
+        from: { color: socket.data.color, handle: socket.data.handle },
+        ...(invite ? { invite: invite.token } : {}),
+      };
+      try {
+        for (const s of await io.in(parent.id).fetchSockets()) {
+          if (participants.has(s.data.color)) s.emit("branch-invite", branchInvite);
+        }
+      } catch (err) {
+        logger.error("Branch invites failed", { roomId, error: err.message });
+      }
     }
+    if (!branch.secret) broadcastRoomList(io);
+  });
 
-    // Join new room (getOrCreateRoom is safe here since we validated above)
-    const room = getOrCreateRoom(roomId);
-    socket.join(roomId);
-    socketToRoom.set(socket.id, roomId);
-    socket.currentRoom = roomId;
+  // Follow another room without leaving this one: pulses and mood only, never its stream
+  socket.on("listen-room", async (payload) => {
+    const { roomId: targetRoomId, passphrase, invite, pass } = payload;
+    const roomId = getRoomId(targetRoomId);
+    if (!socket.data.color) return; // Not joined yet; the client asks again after joining
+    if (roomId === socketToRoom.get(socket.id) || socket.data.listening.includes(roomId)) return;
+
+    const rateCheck = checkRateLimit(socket.id, "listen");
+    if (!rateCheck.allowed) {
+      socket.emit("listen-failed", { reason: "Too many rooms too quickly. Please wait.", roomId });
+      return;
+    }
+    if (!rooms.has(roomId)) {
+      socket.emit("listen-failed", { reason: "Room does not exist", roomId });
+      return;
+    }
+    if (socket.data.listening.length >= MAX_LISTENING_ROOMS) {
+      socket.emit("listen-failed", { reason: `You can listen to ${MAX_LISTENING_ROOMS} rooms at most`, roomId });
+      return;
+    }
+    if (!(await admitToRoom(socket, rooms.get(roomId), { passphrase, invite, pass }, { listening: true }))) return;
+    // Went in, or started listening, while access was checked
+    if (roomId === socketToRoom.get(socket.id) || socket.data.listening.includes(roomId)) return;
 
+    socket.data.listening = [...socket.data.listening, roomId];
+    socket.join(listenChannel(roomId));
+    sendListening(socket);
     broadcastPresence(io, roomId);
-    broadcastAttention(io, roomId);
+  });
 
-    // Send room state using helper (Issue #6)
-    sendRoomState(socket, io, room, roomId);
+  socket.on("unlisten-room", (payload) => {
+    stopListening(io, socket, getRoomId(payload.roomId));
   });
 
   // DM (Crosstalk) - visible to room but text obscured
-  socket.on("dm", (payload) => {
+  socket.on("dm", async (payload) => {
     // Issue #3: Support targetSocketId for unique identification, fall back to targetColor
-    const { targetColor, targetSocketId, text } = payload || {};
-    if ((!targetColor && !targetSocketId) || !text || typeof text !== "string") return;
+    const { targetColor, targetSocketId, text } = payload;
+    if (!targetColor && !targetSocketId) return;
     const trimmed = text.trim().slice(0, 500);
     if (!trimmed) return;
+    if (getMutedUntil(socket.data)) {
+      socket.emit("dm-failed", { reason: "You are muted" });
+      return;
+    }
 
     const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
-    const senderColor = socket.userColor;
-
-    // Find target socket - prefer socketId if provided for unique identification
-    let targetSocket = null;
-    if (targetSocketId) {
-      const sock = io.sockets.sockets.get(targetSocketId);
-      if (sock && socketToRoom.get(sock.id) === roomId) {
-        targetSocket = sock;
-      }
-    } else {
-      // Fall back to color matching (legacy)
-      for (const [, s] of io.sockets.sockets) {
-        if (s.userColor === targetColor && socketToRoom.get(s.id) === roomId) {
-          targetSocket = s;
-          break;
-        }
-      }
-    }
+    const senderColor = socket.data.color;
+
+    // Find target socket (on any node) - prefer socketId if provided for unique identification
+    const targetSocket = await findRoomSocket(io, roomId, { socketId: targetSocketId, color: targetColor });
 
     if (!targetSocket) {
       socket.emit("dm-failed", { reason: "User not in room" });
       return;
     }
 
-    const resolvedTargetColor = targetSocket.userColor;
+    const resolvedTargetColor = targetSocket.data.color;
     const dmKey = getDMKey(senderColor, resolvedTargetColor, roomId);
 
     // Track active DM for visibility
     activeDMs.set(dmKey, {
       participants: [senderColor, resolvedTargetColor],
+      handles: [socket.data.handle || null, targetSocket.data.handle || null],
       lastActivity: Date.now(),
     });
 
@@ -1037,11 +2621,11 @@ io.on("connection", (socket) => {
       id: `dm-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
       text: trimmed,
       color: senderColor,
-      handle: socket.userHandle || null,
-      sigil: socket.userSigil || null,
+      handle: socket.data.handle || null,
+      sigil: socket.data.sigil || null,
       targetColor: resolvedTargetColor,
       targetSocketId: targetSocket.id, // Include for client reference
-      targetHandle: targetSocket.userHandle || null,
+      targetHandle: targetSocket.data.handle || null,
       ts: Date.now(),
     };
 
@@ -1052,52 +2636,242 @@ io.on("connection", (socket) => {
     // Broadcast to room that DM is happening (crosstalk - visible but obscured)
     io.to(roomId).emit("crosstalk", {
       participants: [
-        { color: senderColor, handle: socket.userHandle },
-        { color: resolvedTargetColor, handle: targetSocket.userHandle },
+        { color: senderColor, handle: socket.data.handle },
+        { color: resolvedTargetColor, handle: targetSocket.data.handle },
       ],
       ts: Date.now(),
     });
   });
 
   // DM typing indicator
-  socket.on("dm-typing", (payload) => {
+  socket.on("dm-typing", async (payload) => {
     // Rate limit typing events (reuse typing limit)
     const rateCheck = checkRateLimit(socket.id, "typing");
     if (!rateCheck.allowed) return;
 
-    const { targetColor, targetSocketId } = payload || {};
+    const { targetColor, targetSocketId } = payload;
     if (!targetColor && !targetSocketId) return;
 
     const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
 
     // Issue #3: Support targetSocketId for unique identification
-    if (targetSocketId) {
-      const targetSock = io.sockets.sockets.get(targetSocketId);
-      if (targetSock && socketToRoom.get(targetSock.id) === roomId) {
-        targetSock.emit("dm-typing", { color: socket.userColor, handle: socket.userHandle });
-        return;
-      }
+    const targetSock = await findRoomSocket(io, roomId, { socketId: targetSocketId, color: targetColor });
+    if (targetSock) {
+      targetSock.emit("dm-typing", { color: socket.data.color, handle: socket.data.handle });
     }
+  });
 
-    // Fall back to color matching (legacy)
-    for (const [, s] of io.sockets.sockets) {
-      if (s.userColor === targetColor && socketToRoom.get(s.id) === roomId) {
-        s.emit("dm-typing", { color: socket.userColor, handle: socket.userHandle });
-        return;
-      }
+  // Moderation - every action is checked here, whatever the client shows
+  const requireModerator = (action) => {
+    if (socket.data.moderator) return true;
+    socket.emit("mod-failed", { action, reason: "Moderators only" });
+    return false;
+  };
+
+  // Resolve a target in the moderator's room; reports failure and returns null if there's nobody to act on
+  const resolveModTargets = async (action, target) => {
+    const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
+    const targets = await findModTargets(io, roomId, target).catch(() => []);
+    if (targets.length === 0) {
+      socket.emit("mod-failed", { action, reason: `"${target}" isn't in this room` });
+      return null;
+    }
+    if (targets.some((t) => t.data.moderator)) {
+      socket.emit("mod-failed", { action, reason: "Moderators can't act on each other" });
+      return null;
+    }
+    return { roomId, targets };
+  };
+
+  socket.on("mod-auth", (secret) => {
+    const rateCheck = checkRateLimit(socket.id, "modAuth");
+    if (!rateCheck.allowed) {
+      socket.emit("rate-limited", { event: "mod-auth", reason: rateCheck.reason });
+      return;
+    }
+    if (!checkModSecret(secret)) {
+      logger.warn("Moderator auth failed", { socketId: socket.id, ip: socket.data.ip });
+      socket.emit("mod-failed", { action: "auth", reason: MOD_SECRET ? "Wrong secret" : "Moderation is not enabled" });
+      return;
+    }
+    socket.data.moderator = true;
+    logger.info("Moderator authenticated", { socketId: socket.id });
+    socket.emit("mod-status", { moderator: true });
+  });
+
+  socket.on("mod-kick", async ({ target, reason }) => {
+    if (!requireModerator("kick")) return;
+    const found = await resolveModTargets("kick", target);
+    if (!found) return;
+    const label = userLabel(found.targets[0].data);
+    for (const t of found.targets) {
+      t.emit("kicked", { reason: reason || "Removed by a moderator" });
+      t.disconnect(true);
+    }
+    sendModerationNotice(io, found.roomId, "kick", { target: label, subject: auditParty(found.targets[0].data), reason, by: socket.data });
+  });
+
+  socket.on("mod-mute", async ({ target, minutes, reason }) => {
+    if (!requireModerator("mute")) return;
+    const found = await resolveModTargets("mute", target);
+    if (!found) return;
+    const until = muteUser(found.targets[0].data, minutes);
+    for (const t of found.targets) {
+      t.emit("muted", { reason: reason || "Muted by a moderator", until });
+    }
+    sendModerationNotice(io, found.roomId, "mute", {
+      target: userLabel(found.targets[0].data),
+      subject: auditParty(found.targets[0].data),
+      reason,
+      minutes,
+      by: socket.data,
+    });
+  });
+
+  socket.on("mod-ban", async ({ target, minutes, reason }) => {
+    if (!requireModerator("ban")) return;
+    const found = await resolveModTargets("ban", target);
+    if (!found) return;
+    const { data } = found.targets[0];
+    const ban = banUser(
+      { ip: data.ip, clientId: data.clientId, label: userLabel(data) },
+      { reason: reason || "Banned by a moderator", moderator: userLabel(socket.data), durationMs: minutes ? minutes * 60 * 1000 : null }
+    );
+    if (!ban) {
+      socket.emit("mod-failed", { action: "ban", reason: "Nothing to ban them by" });
+      return;
+    }
+    for (const t of found.targets) {
+      t.emit("banned", banNotice(ban));
+      t.disconnect(true);
+    }
+    sendModerationNotice(io, found.roomId, "ban", { target: ban.label, subject: ban, reason, minutes, by: socket.data });
+  });
+
+  socket.on("mod-unban", ({ banId }) => {
+    if (!requireModerator("unban")) return;
+    const ban = unbanUser(banId);
+    if (!ban) {
+      socket.emit("mod-failed", { action: "unban", reason: "No such ban" });
+      return;
+    }
+    const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
+    sendModerationNotice(io, roomId, "unban", { target: ban.label, subject: ban, by: socket.data });
+  });
+
+  socket.on("mod-list-bans", () => {
+    if (!requireModerator("list-bans")) return;
+    socket.emit(
+      "ban-list",
+      bans.listBans().map(({ id, label, reason, moderator, createdAt, expiresAt }) => ({ id, label, reason, moderator, createdAt, expiresAt }))
+    );
+  });
+
+  socket.on("mod-clear", () => {
+    if (!requireModerator("clear")) return;
+    const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
+    const room = rooms.get(roomId);
+    if (!room) return;
+    room.messages = [];
+    redis.clearMessages(roomId);
+    syncNodes("room-cleared", roomId);
+    io.to(roomId).emit("stream-cleared");
+    sendModerationNotice(io, roomId, "clear", { by: socket.data });
+  });
+
+  socket.on("mod-lock", ({ locked }) => {
+    if (!requireModerator("lock")) return;
+    const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
+    const room = rooms.get(roomId);
+    if (!room || room.locked === locked) return;
+    updateRoomMeta(room, { locked });
+    io.to(roomId).emit("room-locked", { locked });
+    sendModerationNotice(io, roomId, locked ? "lock" : "unlock", { by: socket.data });
+  });
+
+  // Report a message: the snapshot comes from the server's copy when it still has one
+  socket.on("report", async ({ messageId, text, reason }) => {
+    const rateCheck = checkRateLimit(socket.id, "report");
+    if (!rateCheck.allowed) {
+      socket.emit("rate-limited", { event: "report", reason: rateCheck.reason });
+      return;
+    }
+    const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
+    const room = rooms.get(roomId);
+    const msg = room && room.messages.find((m) => m.id === messageId);
+    if (msg && msg.color === socket.data.color) {
+      socket.emit("report-failed", { reason: "You can't report your own message." });
+      return;
+    }
+
+    // Whoever wrote it, if they're still here, so an operator can act on the report later
+    let author = null;
+    if (msg) {
+      const [authorSocket] = await findModTargets(io, roomId, msg.color).catch(() => []);
+      author = {
+        color: msg.color,
+        handle: msg.handle || null,
+        ip: authorSocket ? authorSocket.data.ip : null,
+        clientId: authorSocket ? authorSocket.data.clientId : null,
+      };
     }
+
+    const { report, duplicate, hidden } = reports.fileReport({
+      roomId,
+      messageId,
+      text: msg ? msg.text : text.trim(),
+      verified: !!msg,
+      author,
+      reporter: { ip: socket.data.ip, clientId: socket.data.clientId, color: socket.data.color, reason: reason.trim() || "No reason given" },
+    });
+    if (duplicate) {
+      socket.emit("report-failed", { reason: "You already reported that message." });
+      return;
+    }
+    syncNodes("report-filed", report);
+    logger.info("Message reported", { reportId: report.id, roomId, messageId, reporters: report.reporters.length });
+    socket.emit("report-received", { messageId });
+
+    if (hidden) {
+      setMessageHidden(io, roomId, messageId, true);
+      metrics.recordModeration("hide", "reports");
+      logger.info("Message hidden after reports", { reportId: report.id, roomId, messageId });
+      audit.record({
+        action: "hide",
+        target: author && { ip: author.ip, clientId: author.clientId, label: author.handle || author.color },
+        roomId,
+        reason: "reports",
+        details: { reportId: report.id, reporters: reports.independentCount(report) },
+      });
+    }
+  });
+
+  // Room link mode; null goes back to the moderation policy's mode
+  socket.on("mod-links", ({ mode }) => {
+    if (!requireModerator("links")) return;
+    if (mode !== null && !moderation.LINK_MODES.includes(mode)) {
+      socket.emit("mod-failed", { action: "links", reason: `Link mode must be one of ${moderation.LINK_MODES.join(", ")}` });
+      return;
+    }
+    const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
+    const room = rooms.get(roomId);
+    if (!room || room.linkMode === mode) return;
+    updateRoomMeta(room, { linkMode: mode });
+    sendModerationNotice(io, roomId, "links", { linkMode: mode, by: socket.data });
   });
 
-  socket.on("disconnect", () => {
+  socket.on("disconnect", (reason) => {
     const roomId = socketToRoom.get(socket.id) || DEFAULT_ROOM_ID;
-    // Add to presence ghosts before removing
-    if (socket.userColor) {
-      addPresenceGhost(socket.userColor, socket.userHandle, roomId);
+    // Dropped connections (network, refresh) may come back; kicks and deliberate disconnects don't
+    const resumable = socket.data.clientId && socket.data.color &&
+      reason !== "server namespace disconnect" && reason !== "client namespace disconnect";
+    if (resumable) {
+      lingerSession(socket, roomId);
+    } else if (socket.data.color) {
+      // Add to presence ghosts before removing
+      addPresenceGhost(socket.data.color, socket.data.handle, roomId);
       io.to(roomId).emit("presence-ghosts", getPresenceGhosts(roomId));
     }
-    socketIdToIP.delete(socket.id);
-    socketFocused.delete(socket.id);
-    socketAway.delete(socket.id);
     socketToRoom.delete(socket.id);
     if (awayTimers.has(socket.id)) {
       clearTimeout(awayTimers.get(socket.id));
@@ -1108,14 +2882,75 @@ io.on("connection", (socket) => {
       clearTimeout(typingTimers.get(socket.id));
       typingTimers.delete(socket.id);
     }
-    broadcastPresence(io, roomId);
-    broadcastAttention(io, roomId);
+    if (!resumable) {
+      broadcastPresence(io, roomId);
+      broadcastAttention(io, roomId);
+    }
+    for (const listenedId of socket.data.listening) broadcastPresence(io, listenedId);
+  });
+});
+
+// Initialize Redis and restore persisted rooms before accepting connections
+async function start() {
+  await redis.initRedis();
+
+  // Share rooms, broadcasts and fetchSockets() with other instances through Redis pub/sub
+  const clients = redis.createAdapterClients();
+  if (clients) {
+    io.adapter(createAdapter(clients.pubClient, clients.subClient));
+    clustered = true;
+  }
+
+  // Strike ladder: a bad STRIKE_LADDER is logged and the default kept, rather than refusing to start
+  try {
+    strikes.configure({
+      ladder: process.env.STRIKE_LADDER,
+      decayMs: parseFloat(process.env.STRIKE_DECAY_HOURS) * 60 * 60 * 1000,
+    });
+  } catch (err) {
+    logger.error("Invalid STRIKE_LADDER, using default", { error: err.message, default: strikes.DEFAULT_LADDER });
+  }
+  logger.info("Strike ladder", { ladder: strikes.getLadder().map((s) => (s.minutes ? `${s.action}:${s.minutes}` : s.action)).join(",") });
+
+  await policy.watch({ file: process.env.MODERATION_POLICY || policy.DEFAULT_POLICY_PATH, logger });
+  roomAccess.configure({ secret: process.env.INVITE_SECRET, logger });
+
+  // Audit log: if its directory can't be written, moderation carries on unaudited rather than refusing to start
+  const auditDir = process.env.AUDIT_LOG_DIR || path.join(__dirname, "audit");
+  try {
+    await audit.configure({
+      dir: auditDir,
+      maxBytes: parseFloat(process.env.AUDIT_MAX_MB) * 1024 * 1024,
+      maxFiles: parseInt(process.env.AUDIT_MAX_FILES, 10),
+      salt: process.env.AUDIT_SALT,
+      logger,
+    });
+    logger.info("Audit log", { dir: auditDir });
+  } catch (err) {
+    logger.error("Audit log unavailable", { dir: auditDir, error: err.message });
+  }
+  await rehydrateRooms();
+  const banCount = await bans.loadBans();
+  if (banCount > 0) logger.info("Bans loaded", { count: banCount });
+  reports.configure({ hideThreshold: parseInt(process.env.REPORT_HIDE_THRESHOLD, 10) });
+  const reportCount = await reports.loadReports();
+  if (reportCount > 0) logger.info("Open reports loaded", { count: reportCount });
+  startBanSweepTimer();
+
+  // Initialize default room
+  getOrCreateRoom(DEFAULT_ROOM_ID, { title: DEFAULT_ROOM_TITLE, secret: false });
+
+  httpServer.listen(PORT, () => {
+    logger.info("Socket server started", { port: PORT, url: `http://localhost:${PORT}`, clustered });
   });
+}
+
+start().catch((err) => {
+  logger.error("Startup failed", { error: err.message });
+  process.exit(1);
 });
 
-httpServer.listen(PORT, () => {
-  logger.info("Socket server started", { port: PORT, url: `http://localhost:${PORT}` });
-}).on("error", (err) => {
+httpServer.on("error", (/** @type {NodeJS.ErrnoException} */ err) => {
   if (err.code === "EADDRINUSE") {
     logger.error("Port already in use", { port: PORT, hint: `fuser -k ${PORT}/tcp` });
   } else {
@@ -1132,12 +2967,18 @@ function gracefulShutdown(signal) {
   isShuttingDown = true;
   logger.info("Shutdown initiated", { signal });
 
-  // Notify connected clients
-  io.emit("server-shutdown", { message: "Server is shutting down" });
+  // Notify this node's clients (other nodes keep serving)
+  io.local.emit("server-shutdown", { message: "Server is shutting down" });
 
   // Clear all timers
   if (moodDecayTimer) clearInterval(moodDecayTimer);
   if (silenceTimer) clearInterval(silenceTimer);
+  if (banSweepTimer) clearInterval(banSweepTimer);
+  if (scheduleTimer) clearInterval(scheduleTimer);
+  if (roomSweepTimer) clearInterval(roomSweepTimer);
+  if (directoryTimer) clearInterval(directoryTimer);
+  if (drainTimer) clearTimeout(drainTimer);
+  policy.unwatch();
   for (const timer of typingTimers.values()) {
     clearTimeout(timer);
   }
@@ -1150,12 +2991,17 @@ function gracefulShutdown(signal) {
     clearTimeout(timer);
   }
   dmCleanupTimers.clear();
+  for (const { timer } of lingeringSessions.values()) {
+    clearTimeout(timer);
+  }
+  lingeringSessions.clear();
 
   // Close all socket connections gracefully
   io.close(async () => {
     logger.info("All connections closed");
     await redis.closeRedis();
     logger.info("Redis closed");
+    await audit.flush();
     httpServer.close(() => {
       logger.info("HTTP server closed");
       process.exit(0);
@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+/**
+ * Moderation corpus: evasions that must be caught and lookalikes that must not be
+ * Run with: npm run test:moderation (or node tests/moderation-corpus.js)
+ *
+ * Each row is [text, expected]. Add a row whenever something slips through or
+ * gets flagged wrongly, so the fix stays fixed. Exits non-zero on any mismatch.
+ */
+
+const { detectBigotry, maskBigotry, containsUrl, moderate } = require("../lib/moderation");
+
+const BIGOTRY = [
+  // Plain and inflected
+  ["you fag", true],
+  ["FAGGOTS everywhere", true],
+  ["what a retard", true],
+  ["stop being retarded", true],
+  ["porch monkey", true],
+  ["she-male", true],
+  // Leetspeak
+  ["n1gg3r", true],
+  ["f4gg0t", true],
+  ["r3t@rd", true],
+  ["k!ke", true],
+  // Spacing and separators
+  ["f a g", true],
+  ["f.a.g.g.o.t", true],
+  ["f-a-g", true],
+  ["t_r_a_n_n_y", true],
+  ["porchmonkey", true],
+  // Repetition
+  ["faaaaggggooooot", true],
+  ["retaaaaard", true],
+  // Invisible characters
+  ["fa\u200Bg", true], // Zero-width space
+  ["ret\u00ADard", true], // Soft hyphen
+  ["d\u2060y\u2060k\u2060e", true], // Word joiners
+  // Homoglyphs and compatibility forms
+  ["fаggot", true], // Cyrillic а
+  ["tаrd", true], // Cyrillic а
+  ["ѕpic", true], // Cyrillic ѕ
+  ["ｆａｇ", true], // Fullwidth
+  ["fàggöt", true], // Accents
+  ["\u{1D41F}\u{1D41A}\u{1D420}", true], // Mathematical bold
+
+  // Known false positives
+  ["Scunthorpe United won", false],
+  ["Niger is in West Africa", false],
+  ["a raccoon in a cocoon", false],
+  ["that was conspicuous", false],
+  ["spicy noodles", false],
+  ["mustard and custard", false],
+  ["fire retardant", false],
+  ["the dike held the flood", false],
+  ["a bundle of faggots for the fire", true], // Archaic sense still matches: accepted
+  ["snigger", false],
+  ["I feel good", false],
+  ["a b c d", false],
+  ["version 3.1.4", false],
+];
+
+const URLS = [
+  ["visit example.com", true],
+  ["https://witch.at/r/main", true],
+  ["www.example.org", true],
+  ["example dot com", true],
+  ["example DOT com", true],
+  ["example (dot) com", true],
+  ["example[.]net", true],
+  ["example . com", true],
+  ["exa\u200Bmple.com", true],
+  ["еxample.com", true], // Cyrillic е
+  ["example．com", true], // Fullwidth full stop
+  ["example。com", true], // Ideographic full stop
+  ["github.com/memmmmike/witch_at", true],
+  ["(see https://nodejs.org/docs).", true],
+  ["try socket.io", true],
+  ["example.no/path", true], // Ambiguous TLD with a path
+
+  // Known false positives
+  ["the dot com bubble", false],
+  ["connect the dots", false],
+  ["it's over. me too", false],
+  ["done. come here", false],
+  ["I like dots", false],
+  ["nothing to see here", false],
+  // File names and version strings
+  ["written in node.js", false],
+  ["open index.html", false],
+  ["run script.pl", false],
+  ["edit app.config.ts", false],
+  ["see README.md", false],
+  ["bumped to v1.2.3", false],
+  ["ping 10.0.0.1", false],
+  ["mail me at someone@example.com", false],
+  ["read document.it then", false],
+  ["ok.no thanks", false],
+  ["e.g. this one", false],
+];
+
+// Link modes: [text, mode, expected] - expected is "ok", "ok-clickable", or the rejection reason
+const LINK_MODES = [
+  ["see github.com/foo", "block", "no-links"],
+  ["written in node.js", "block", "ok"],
+  ["see github.com/foo", "allowlist", "ok-clickable"],
+  ["docs at developer.mozilla.org/en-US", "allowlist", "ok-clickable"],
+  ["en.wikipedia.org/wiki/Witch", "allowlist", "ok-clickable"], // Subdomain of an allowlisted domain
+  ["visit example.com", "allowlist", "link-not-allowed"],
+  ["visit github.com.example.com", "allowlist", "link-not-allowed"],
+  ["visit notgithub.com", "allowlist", "link-not-allowed"],
+  ["example dot com", "allowlist", "link-not-allowed"], // Spelled out: still not allowlisted
+  ["visit example.com", "inert", "ok"],
+  ["example dot com", "inert", "ok"],
+];
+
+let failures = 0;
+
+function expect(label, text, actual, expected) {
+  if (actual === expected) return;
+  failures++;
+  console.error(`FAIL ${label}: ${JSON.stringify(text)} -> ${actual}, expected ${expected}`);
+}
+
+for (const [text, expected] of BIGOTRY) {
+  expect("bigotry", text, detectBigotry(text).found, expected);
+  // Whatever is detected must also be masked
+  if (expected) expect("masked", text, maskBigotry(text) !== text, true);
+}
+
+for (const [text, expected] of URLS) {
+  expect("url", text, containsUrl(text), expected);
+}
+
+for (const [text, mode, expected] of LINK_MODES) {
+  const result = moderate(text, undefined, mode);
+  const actual = !result.allowed ? result.reason : result.links?.some((l) => l.href) ? "ok-clickable" : "ok";
+  expect(`links:${mode}`, text, actual, expected);
+}
+
+const total = BIGOTRY.length + URLS.length + LINK_MODES.length;
+if (failures > 0) {
+  console.error(`\n${failures} of ${total} cases failed`);
+  process.exit(1);
+}
+console.log(`All ${total} moderation cases passed`);
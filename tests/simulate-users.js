@@ -4,14 +4,15 @@
  * Run with: node tests/simulate-users.js
  *
  * Environment variables:
- *   URL      - Socket server URL (default: http://localhost:4001)
+ *   URL      - Socket server URL, or a comma-separated list to spread users across
+ *              instances (default: http://localhost:4001)
  *   USERS    - Number of users (default: 3)
  *   DURATION - Duration in ms (default: 60000)
  */
 
 const { io } = require("socket.io-client");
 
-const SOCKET_URL = process.env.URL || "http://localhost:4001";
+const SOCKET_URLS = (process.env.URL || "http://localhost:4001").split(",").map((u) => u.trim()).filter(Boolean);
 const NUM_USERS = parseInt(process.env.USERS || "3", 10);
 const DURATION_MS = parseInt(process.env.DURATION || "60000", 10);
 
@@ -58,13 +59,14 @@ class TestUser {
     this.color = randomColor();
     this.socket = null;
     this.currentRoom = "main";
+    this.url = SOCKET_URLS[id % SOCKET_URLS.length]; // Round-robin across instances
   }
 
   connect() {
     return new Promise((resolve, reject) => {
-      console.log(`[User ${this.id}] Connecting to ${SOCKET_URL}...`);
+      console.log(`[User ${this.id}] Connecting to ${this.url}...`);
 
-      this.socket = io(SOCKET_URL, {
+      this.socket = io(this.url, {
         path: "/api/socketio",
         transports: ["websocket", "polling"],
       });
@@ -204,7 +206,7 @@ async function simulateActivity(user, durationMs, allUsers) {
 
 async function main() {
   console.log(`\n=== Witch@ Test Users ===`);
-  console.log(`URL: ${SOCKET_URL}`);
+  console.log(`URL: ${SOCKET_URLS.join(", ")}`);
   console.log(`Users: ${NUM_USERS}`);
   console.log(`Duration: ${DURATION_MS / 1000}s\n`);
 
@@ -0,0 +1,248 @@
+#!/usr/bin/env node
+/**
+ * Payload validation table: what each event schema accepts and turns away
+ * Run with: npm run test:validation (or node tests/validation-table.js)
+ *
+ * Each row is [event, payload, expected]: null when the payload is valid, otherwise a piece
+ * of the reason it's rejected with. Every event in EVENT_SCHEMAS needs a good row and a bad
+ * one, so a new event can't go in untested. Exits non-zero on any mismatch.
+ */
+
+const { validatePayload, validateAdminBody, check, EVENT_SCHEMAS, MAX_TEXT_LENGTH } = require("../lib/validation");
+
+const long = (n) => "x".repeat(n + 1); // One past a limit of n
+const TOKEN = "eyJrIjoiaW52aXRlIn0.c2lnbmF0dXJl";
+
+const EVENTS = [
+  // join: the whole payload and every field may be left out
+  ["join", undefined, null],
+  ["join", null, null],
+  ["join", { color: "#aabbcc", handle: "ada", clientId: "abc-123", roomId: "main", invite: TOKEN }, null],
+  ["join", { color: null, handle: null }, null],
+  ["join", "main", "must be an object"],
+  ["join", { handle: 7 }, "payload.handle must be a string"],
+  ["join", { clientId: long(64) }, "payload.clientId exceeds 64"],
+  ["join", { color: long(16) }, "payload.color exceeds 16"],
+  ["join", { passphrase: "" }, "payload.passphrase must not be empty"],
+  ["join", { pass: long(512) }, "payload.pass exceeds 512"],
+
+  // message: plain text, or text with a whisper flag
+  ["message", "hello", null],
+  ["message", { text: "hello", whisper: true }, null],
+  ["message", { text: "hello" }, null],
+  ["message", "", "must not be empty"],
+  ["message", long(MAX_TEXT_LENGTH), `exceeds ${MAX_TEXT_LENGTH}`],
+  ["message", 42, "unexpected type number"],
+  ["message", ["hello"], "unexpected type array"],
+  ["message", null, "unexpected type null"],
+  ["message", undefined, "payload is required"],
+  ["message", {}, "payload.text is required"],
+  ["message", { text: "hi", whisper: "yes" }, "payload.whisper must be a boolean"],
+
+  // reveal: null to go anonymous, a handle, or the whole identity
+  ["reveal", null, null],
+  ["reveal", "ada", null],
+  ["reveal", { handle: "ada", tag: "witch", sigil: null }, null],
+  ["reveal", 1, "unexpected type number"],
+  ["reveal", true, "unexpected type boolean"],
+  ["reveal", long(64), "exceeds 64"],
+  ["reveal", { handle: ["ada"] }, "payload.handle must be a string"],
+
+  ["affirm", "msg-1", null],
+  ["affirm", "", "must not be empty"],
+  ["affirm", long(64), "exceeds 64"],
+  ["affirm", { messageId: "msg-1" }, "must be a string"],
+  ["affirm", undefined, "payload is required"],
+
+  ["copy", { messageId: "msg-1" }, null],
+  ["copy", { messageId: null }, null],
+  ["copy", {}, null],
+  ["copy", "msg-1", "must be an object"],
+  ["copy", { messageId: long(64) }, "payload.messageId exceeds 64"],
+
+  ["summon", "#aabbcc", null],
+  ["summon", "", "must not be empty"],
+  ["summon", long(32), "exceeds 32"],
+  ["summon", 5, "must be a string"],
+
+  ["create-room", { title: "late night" }, null],
+  ["create-room", { title: "hidden", secret: true, passphrase: "open sesame" }, null],
+  ["create-room", { title: "tuesdays", schedule: { kind: "weekly", days: [2], open: "20:00", close: "23:00", timeZone: "Europe/Berlin" } }, null],
+  ["create-room", {}, "payload.title is required"],
+  ["create-room", { title: "" }, "payload.title must not be empty"],
+  ["create-room", { title: long(128) }, "payload.title exceeds 128"],
+  ["create-room", { title: "x", secret: "yes" }, "payload.secret must be a boolean"],
+  ["create-room", { title: "x", passphrase: "abc" }, "payload.passphrase must not be empty"], // Under 4
+  ["create-room", { title: "x", schedule: { kind: "daily", open: "20:00", close: "23:00" } }, "payload.schedule.timeZone is required"],
+  ["create-room", { title: "x", schedule: { kind: "weekly", days: [7], timeZone: "UTC" } }, "payload.schedule.days[0] must be between 0 and 6"],
+  ["create-room", { title: "x", schedule: { kind: "weekly", days: [1, 2, 3, 4, 5, 6, 0, 1], timeZone: "UTC" } }, "exceeds 7 items"],
+  ["create-room", { title: "x", schedule: { kind: "weekly", days: "mon", timeZone: "UTC" } }, "payload.schedule.days must be an array"],
+
+  ["delete-room", { roomId: "late-night" }, null],
+  ["delete-room", {}, "payload.roomId is required"],
+  ["delete-room", { roomId: long(64) }, "payload.roomId exceeds 64"],
+  ["delete-room", "late-night", "must be an object"],
+
+  ["switch-room", { roomId: "late-night" }, null],
+  ["switch-room", { roomId: "hidden", passphrase: "open sesame", pass: TOKEN }, null],
+  ["switch-room", {}, "payload.roomId is required"],
+  ["switch-room", { roomId: 3 }, "payload.roomId must be a string"],
+  ["switch-room", { roomId: "hidden", invite: long(512) }, "payload.invite exceeds 512"],
+
+  ["branch-room", { title: "side quest" }, null],
+  ["branch-room", {}, "payload.title is required"],
+  ["branch-room", { title: "" }, "payload.title must not be empty"],
+  ["branch-room", { title: long(128) }, "payload.title exceeds 128"],
+  ["branch-room", "side quest", "must be an object"],
+
+  ["listen-room", { roomId: "late-night" }, null],
+  ["listen-room", { roomId: "hidden", invite: TOKEN }, null],
+  ["listen-room", {}, "payload.roomId is required"],
+  ["listen-room", { roomId: "x", passphrase: long(128) }, "payload.passphrase exceeds 128"],
+
+  ["unlisten-room", { roomId: "late-night" }, null],
+  ["unlisten-room", {}, "payload.roomId is required"],
+  ["unlisten-room", { roomId: null }, "payload.roomId must not be null"],
+
+  // update-room: any subset of changes
+  ["update-room", {}, null],
+  ["update-room", { title: "renamed", description: null, pinned: true, schedule: null }, null],
+  ["update-room", { settings: { ghostMessages: 5, silenceMs: 60000 } }, null],
+  ["update-room", { title: "" }, "payload.title must not be empty"],
+  ["update-room", { description: "x".repeat(200) }, null],
+  ["update-room", { description: long(200) }, "payload.description exceeds 200"],
+  ["update-room", { pinned: "true" }, "payload.pinned must be a boolean"],
+  ["update-room", { settings: { ghostMessages: 11 } }, "payload.settings.ghostMessages must be between 0 and 10"],
+  ["update-room", { settings: { ghostMessages: 2.5 } }, "must be a whole number"],
+  ["update-room", { settings: { silenceMs: "30s" } }, "payload.settings.silenceMs must be a number"],
+
+  ["hand-off-room", { target: "ada" }, null],
+  ["hand-off-room", {}, "payload.target is required"],
+  ["hand-off-room", { target: long(32) }, "payload.target exceeds 32"],
+
+  ["create-invite", {}, null],
+  ["create-invite", { minutes: 60, maxUses: 5 }, null],
+  ["create-invite", { minutes: 0 }, "payload.minutes must be between"],
+  ["create-invite", { maxUses: 101 }, "payload.maxUses must be between 1 and 100"],
+  ["create-invite", { minutes: "60" }, "payload.minutes must be a number"],
+  ["create-invite", { minutes: NaN }, "payload.minutes must be a number"],
+
+  ["dm", { targetColor: "#aabbcc", text: "psst" }, null],
+  ["dm", { targetSocketId: "abc", text: "psst" }, null],
+  ["dm", { targetColor: "#aabbcc" }, "payload.text is required"],
+  ["dm", { text: long(MAX_TEXT_LENGTH) }, `payload.text exceeds ${MAX_TEXT_LENGTH}`],
+  ["dm", { targetColor: 1, text: "psst" }, "payload.targetColor must be a string"],
+
+  ["dm-typing", { targetColor: "#aabbcc" }, null],
+  ["dm-typing", {}, null],
+  ["dm-typing", { targetSocketId: long(64) }, "payload.targetSocketId exceeds 64"],
+  ["dm-typing", true, "must be an object"],
+
+  ["mod-auth", "secret", null],
+  ["mod-auth", "", "must not be empty"],
+  ["mod-auth", long(256), "exceeds 256"],
+  ["mod-auth", { secret: "x" }, "must be a string"],
+
+  ["mod-kick", { target: "ada" }, null],
+  ["mod-kick", { target: "#aabbcc", reason: "spam" }, null],
+  ["mod-kick", {}, "payload.target is required"],
+  ["mod-kick", { target: "ada", reason: long(200) }, "payload.reason exceeds 200"],
+
+  ["mod-mute", { target: "ada", minutes: 10 }, null],
+  ["mod-mute", { target: "ada" }, "payload.minutes is required"],
+  ["mod-mute", { target: "ada", minutes: 0 }, "payload.minutes must be between"],
+  ["mod-mute", { target: "ada", minutes: 7 * 24 * 60 + 1 }, "payload.minutes must be between"],
+
+  ["mod-ban", { target: "ada" }, null],
+  ["mod-ban", { target: "ada", minutes: 60, reason: "spam" }, null],
+  ["mod-ban", { target: "ada", minutes: 1.5 }, "must be a whole number"],
+  ["mod-ban", { minutes: 60 }, "payload.target is required"],
+
+  ["mod-unban", { banId: "ban-1" }, null],
+  ["mod-unban", {}, "payload.banId is required"],
+  ["mod-unban", { banId: long(64) }, "payload.banId exceeds 64"],
+
+  ["mod-lock", { locked: true }, null],
+  ["mod-lock", {}, "payload.locked is required"],
+  ["mod-lock", { locked: 1 }, "payload.locked must be a boolean"],
+
+  ["mod-links", { mode: "block" }, null],
+  ["mod-links", { mode: null }, null],
+  ["mod-links", {}, "payload.mode is required"],
+  ["mod-links", { mode: long(16) }, "payload.mode exceeds 16"],
+
+  ["report", { messageId: "msg-1", text: "", reason: "slur" }, null],
+  ["report", { messageId: "msg-1", text: "hi" }, "payload.reason is required"],
+  ["report", { messageId: "msg-1", text: "hi", reason: long(200) }, "payload.reason exceeds 200"],
+  ["report", { messageId: "msg-1", text: 5, reason: "slur" }, "payload.text must be a string"],
+
+  // Events without a schema take no payload and aren't checked
+  ["typing", { anything: true }, null],
+];
+
+// Admin API bodies: [route, body, expected]
+const ADMIN = [
+  ["POST /admin/bans", { ip: "10.0.0.1", reason: "spam", minutes: 60 }, null],
+  ["POST /admin/bans", { ip: "10.0.0.1" }, "body.reason is required"],
+  ["POST /admin/bans", { reason: "spam", minutes: -1 }, "body.minutes must be between"],
+  ["PATCH /admin/rooms/:roomId", { title: "renamed" }, null],
+  ["PATCH /admin/rooms/:roomId", { title: long(128) }, "body.title exceeds 128"],
+  ["POST /admin/notice", { text: "maintenance at noon", roomId: "main" }, null],
+  ["POST /admin/notice", { text: long(500) }, "body.text exceeds 500"],
+  ["POST /admin/reports/:reportId/resolve", { action: "dismiss" }, null],
+  ["POST /admin/reports/:reportId/resolve", { note: "ok" }, "body.action is required"],
+  ["POST /admin/drain", undefined, null],
+  ["POST /admin/drain", { delaySeconds: 301 }, "body.delaySeconds must be between 0 and 300"],
+  ["GET /admin/rooms", "ignored", null],
+];
+
+// The schema builders' edge cases, straight through check()
+const SCHEMAS = [
+  [{ type: "string", min: 0, max: 3, optional: true }, undefined, null],
+  [{ type: "string", min: 0, max: 3 }, undefined, "payload is required"],
+  [{ type: "string", min: 0, max: 3, nullable: true }, null, null],
+  [{ type: "number", min: 0, max: 10, integer: false }, Infinity, "must be a number"],
+  [{ type: "oneOf", options: [{ type: "null" }, { type: "string", min: 1, max: 3 }] }, "abcd", "exceeds 3"],
+  [{ type: "mystery" }, 1, "unknown schema type"],
+];
+
+let failures = 0;
+let total = 0;
+
+function expect(label, value, reason, expected) {
+  total++;
+  const ok = expected === null ? reason === null : reason !== null && reason.includes(expected);
+  if (ok) return;
+  failures++;
+  const shown = value === undefined ? "undefined" : JSON.stringify(value).slice(0, 60);
+  console.error(`FAIL ${label}: ${shown} -> ${reason === null ? "valid" : JSON.stringify(reason)}, expected ${expected === null ? "valid" : JSON.stringify(expected)}`);
+}
+
+for (const [event, payload, expected] of EVENTS) {
+  const result = validatePayload(event, payload);
+  expect(event, payload, result.valid ? null : result.reason, expected);
+}
+
+for (const [route, body, expected] of ADMIN) {
+  const result = validateAdminBody(route, body);
+  expect(route, body, result.valid ? null : result.reason, expected);
+}
+
+for (const [schema, value, expected] of SCHEMAS) {
+  expect(`check:${schema.type}`, value, check(schema, value), expected);
+}
+
+// Every schema needs at least one payload it accepts and one it turns away
+for (const event of Object.keys(EVENT_SCHEMAS)) {
+  const rows = EVENTS.filter(([name]) => name === event);
+  if (!rows.some(([, , expected]) => expected === null) || !rows.some(([, , expected]) => expected !== null)) {
+    failures++;
+    console.error(`FAIL coverage: ${event} needs a valid and an invalid row`);
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} of ${total} cases failed`);
+  process.exit(1);
+}
+console.log(`All ${total} validation cases passed`);